@@ -1,37 +1,181 @@
 
-import React, { useState } from 'react';
-import { Upload, FileVideo, Zap, CheckCircle, Download, Loader2, ArrowRight, Languages, Globe, SlidersHorizontal, Sparkles, LayoutGrid } from 'lucide-react';
-import { Step, ExtractionMode } from './types';
-import { extractFrames } from './utils/videoProcessor';
-import { analyzeStep } from './services/geminiService';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Upload, FileVideo, Zap, CheckCircle, Loader2, ArrowRight, Languages, Globe, SlidersHorizontal, Sparkles, LayoutGrid, Activity, RotateCcw, Pencil, Undo2, Redo2, Plus, Save, FilePlus } from 'lucide-react';
+import { Step, AnalysisMode, ClipFormat, ExtractionMode, GlossaryIssue, Manual, ManualOverview, SceneScan, ProjectFile, ProjectSummary, Terminology, Transcript } from './types';
+import { captureFrameAt, extractFrames, getVideoDuration, scanSceneChanges, selectFrameTimestamps } from './utils/videoProcessor';
+import {
+  createStepId,
+  deleteStep,
+  insertStepByTimestamp,
+  mergeWithNext,
+  moveStep,
+  updateAnnotations,
+  updateClip,
+  getClipIds,
+  updateTranslation,
+  applyRefinement,
+  mergeTranslations,
+} from './utils/stepEditing';
+import { DEFAULT_PROJECT_SETTINGS, createProjectFile, createProjectId, downloadProjectFile, parseProjectFile } from './utils/projectFile';
+import { createManualPdf } from './utils/pdfExport';
+import { createMarkdownBundle } from './utils/markdownExport';
+import { createHtmlManual } from './utils/htmlExport';
+import { DocxLayout, createManualDocx } from './utils/docxExport';
+import { createManualPptx } from './utils/pptxExport';
+import { createStepClip, getClipRange } from './utils/clipExport';
+import { createSubtitleBundle } from './utils/subtitleExport';
+import { getTranscriptBetween } from './utils/transcript';
+import { runWithConcurrency } from './utils/scheduler';
+import { toStepAction } from './utils/actions';
+import { hasEditedAnnotations } from './utils/annotations';
+import { checkGlossary, fixGlossaryIssues } from './utils/glossary';
+import { LANGUAGES, getLanguage } from './languages';
+import { downloadBlob, sanitizeFileName } from './utils/download';
+import { useUndoableState } from './hooks/useUndoableState';
+import { AnalysisApiError, analyzeStep, refineManual, translateManual, withApiRetry } from './services/geminiService';
+import { deleteProject, listRecentProjects, loadClipDataUrls, loadProject, saveClip, saveProject, storeProjectClips } from './services/projectStore';
 import StepCard from './components/StepCard';
+import IgnoreRegionEditor from './components/IgnoreRegionEditor';
+import ChangeTimeline from './components/ChangeTimeline';
+import InsertStepPanel from './components/InsertStepPanel';
+import RecentProjects from './components/RecentProjects';
+import ExportMenu from './components/ExportMenu';
+import AddLanguageMenu from './components/AddLanguageMenu';
+import TranscriptInput from './components/TranscriptInput';
+import TerminologyInput from './components/TerminologyInput';
+import GlossaryCheckPanel from './components/GlossaryCheckPanel';
+
+/** 選択可能なシーン変化スキャン間隔（秒） */
+const SCAN_INTERVAL_OPTIONS = [0.1, 0.25, 0.5, 1, 2];
+
+/** 解析の進め方の選択肢 */
+const ANALYSIS_MODE_OPTIONS: { mode: AnalysisMode; label: string; description: string }[] = [
+  { mode: 'sequential', label: '順番に', description: '1件ずつ・前の結果を参照' },
+  { mode: 'two-pass', label: '2段階', description: '並列で解析後、前の結果を参照して仕上げ' },
+  { mode: 'parallel', label: '並列のみ', description: '最速・前の結果は参照しない' },
+];
+
+/** 同時リクエスト数の上限 */
+const MAX_CONCURRENCY = 6;
+
+/** 最後の変更から自動保存までの待ち時間（ミリ秒） */
+const AUTOSAVE_DELAY = 1000;
 
 const App: React.FC = () => {
   const [videoFile, setVideoFile] = useState<File | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [progress, setProgress] = useState(0);
-  const [steps, setSteps] = useState<Step[]>([]);
+  // ステップ一覧（編集操作は元に戻す / やり直しの履歴に積む）
+  const stepHistory = useUndoableState<Step[]>([]);
+  const steps = stepHistory.value;
+  const [isEditing, setIsEditing] = useState(false);
+  const [showInsertPanel, setShowInsertPanel] = useState(false);
+  const dragIndexRef = useRef<number | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [selectedLangs, setSelectedLangs] = useState<string[]>(['ja', 'en']);
-  const [extractionMode, setExtractionMode] = useState<ExtractionMode>('auto');
-  const [maxFrames, setMaxFrames] = useState(10);
+  const [extractionMode, setExtractionMode] = useState<ExtractionMode>(DEFAULT_PROJECT_SETTINGS.mode);
+  const [maxFrames, setMaxFrames] = useState(DEFAULT_PROJECT_SETTINGS.maxFrames);
+  const [ignoreRegions, setIgnoreRegions] = useState<[number, number, number, number][]>(DEFAULT_PROJECT_SETTINGS.ignoreRegions);
+  const [scanInterval, setScanInterval] = useState(DEFAULT_PROJECT_SETTINGS.scanInterval);
+  const [settleDwell, setSettleDwell] = useState(DEFAULT_PROJECT_SETTINGS.settleDwell);
+  const [analysisMode, setAnalysisMode] = useState<AnalysisMode>(DEFAULT_PROJECT_SETTINGS.analysisMode);
+  const [concurrency, setConcurrency] = useState(DEFAULT_PROJECT_SETTINGS.concurrency);
+  const [sensitivity, setSensitivity] = useState<number | 'auto'>(DEFAULT_PROJECT_SETTINGS.sensitivity);
+  const [sceneScan, setSceneScan] = useState<SceneScan | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const [scanProgress, setScanProgress] = useState(0);
   const [processingPhase, setProcessingPhase] = useState<'scanning' | 'analyzing'>('scanning');
+  const abortRef = useRef<AbortController | null>(null);
+  // 解析の文脈に使う字幕・文字起こし
+  const [transcript, setTranscript] = useState<Transcript | null>(null);
+  // 用語集とスタイルガイド（動画を選び直しても引き継ぐ）
+  const [terminology, setTerminology] = useState<Terminology | null>(null);
+  // 全体の見直しで生成した手順書の概要（言語コード → 概要）
+  const [overview, setOverview] = useState<Record<string, ManualOverview> | null>(null);
+  const [isRefining, setIsRefining] = useState(false);
+  const [refineNotice, setRefineNotice] = useState<string | null>(null);
+  const [isTranslating, setIsTranslating] = useState(false);
+  // 自動保存先のプロジェクト（解析開始時またはプロジェクトを開いた時に決まる）
+  const [projectId, setProjectId] = useState<string | null>(null);
+  // プロジェクトファイルから開いた場合の元動画名（動画ファイル自体は保存されない）
+  const [projectVideoName, setProjectVideoName] = useState<string | null>(null);
+  // 元動画の長さ（秒）。字幕・チャプターの書き出しに使う（動画を処理した時に取得し、プロジェクトに保存する）
+  const [videoDuration, setVideoDuration] = useState<number | null>(null);
+  const [recentProjects, setRecentProjects] = useState<ProjectSummary[]>([]);
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [includeTimestamps, setIncludeTimestamps] = useState(false);
+  const [includeAgenda, setIncludeAgenda] = useState(true);
+  // クリップ作成中のステップと進捗
+  const [clipJob, setClipJob] = useState<{ stepId: string; progress: number } | null>(null);
 
-  const languages = [
-    { id: 'ja', label: '日本語' },
-    { id: 'en', label: 'English' },
-    { id: 'zh', label: '简体中文' },
-    { id: 'ko', label: '한국어' }
-  ];
+  const videoName = videoFile?.name ?? projectVideoName ?? undefined;
+  // 手順書のタイトル（全体の見直しで生成したもの、なければ動画ファイル名から拡張子を除いたもの）
+  const manualOverview = overview?.[selectedLangs[0]];
+  const manualTitle = manualOverview?.title || videoName?.replace(/\.[^/.]+$/, '') || '操作手順マニュアル';
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       setVideoFile(e.target.files[0]);
-      setSteps([]);
+      setProjectId(null);
+      setProjectVideoName(null);
+      setVideoDuration(null);
+      stepHistory.reset([]);
+      setOverview(null);
+      setIsEditing(false);
+      setTranscript(null);
+      setIgnoreRegions([]);
+      setSceneScan(null);
+      setSensitivity('auto');
+      setError(null);
+    }
+  };
+
+  // 除外領域が変わるとスコアも変わるため、既存のスキャン結果を破棄する
+  const updateIgnoreRegions = (regions: [number, number, number, number][]) => {
+    setIgnoreRegions(regions);
+    setSceneScan(null);
+  };
+
+  // スキャン間隔が変わるとスコア系列も変わるため、既存のスキャン結果を破棄する
+  const updateScanInterval = (interval: number) => {
+    setScanInterval(interval);
+    setSceneScan(null);
+  };
+
+  // 設定画面でのシーン変化スキャン（タイムライン表示用）
+  const scanVideo = async () => {
+    if (!videoFile) return;
+
+    try {
+      setIsScanning(true);
+      setScanProgress(0);
       setError(null);
+      const scan = await scanSceneChanges(videoFile, {
+        scanInterval,
+        ignoreRegions,
+        onProgress: setScanProgress,
+      });
+      setSceneScan(scan);
+    } catch (err) {
+      console.error(err);
+      setError("シーン変化のスキャンに失敗しました。ファイル形式を確認してください。");
+    } finally {
+      setIsScanning(false);
     }
   };
 
+  // 現在の閾値（自動の場合はスキャン結果から算出した値）
+  const effectiveThreshold = sensitivity === 'auto'
+    ? sceneScan?.autoThreshold ?? 0
+    : sensitivity;
+
+  // 現在の閾値で選ばれるフレーム（閾値変更のたびに再スキャンせず選び直す）
+  const previewFrames = useMemo(
+    () => sceneScan ? selectFrameTimestamps(sceneScan, effectiveThreshold, maxFrames) : [],
+    [sceneScan, effectiveThreshold, maxFrames]
+  );
+
   const toggleLanguage = (id: string) => {
     setSelectedLangs(prev =>
       prev.includes(id)
@@ -40,117 +184,550 @@ const App: React.FC = () => {
     );
   };
 
-  // PDFダウンロード関数 - 動画名でファイル名を自動設定
-  const downloadPdf = async () => {
-    // html2pdf.js がグローバルに読み込まれている
-    const html2pdf = (window as any).html2pdf;
-    if (!html2pdf) {
-      console.error('html2pdf is not loaded');
-      window.print(); // フォールバック
-      return;
-    }
+  // 完了済みとして扱うステップ（status 省略時は完了）
+  const isStepDone = (step: Step) => !step.status || step.status === 'done';
 
-    // PDF生成対象の要素を取得
-    const element = document.querySelector('main');
-    if (!element) return;
-
-    // 動画ファイル名から拡張子を除去してPDFファイル名を生成
-    const baseName = videoFile?.name.replace(/\.[^/.]+$/, '') || 'manual';
-    const fileName = `${baseName}_操作手順書.pdf`;
-
-    // PDF生成オプション
-    const options = {
-      margin: [10, 10, 10, 10],
-      filename: fileName,
-      image: { type: 'jpeg', quality: 0.95 },
-      html2canvas: {
-        scale: 2,
-        useCORS: true,
-        letterRendering: true
-      },
-      jsPDF: {
-        unit: 'mm',
-        format: 'a4',
-        orientation: 'portrait'
-      },
-      pagebreak: {
-        mode: ['avoid-all', 'css', 'legacy'],
-        before: '.page-break-before',
-        after: '.page-break-after',
-        avoid: '.break-inside-avoid'
+  // 中断による例外かどうか
+  const isAbortError = (err: unknown) => err instanceof DOMException && err.name === 'AbortError';
+
+  /**
+   * 指定したステップをAIで解析する
+   * 解析の進め方（analysisMode）に従い、同時実行数を制限して解析する。1ステップ完了するごとに画面へ反映し、
+   * 一時的なエラーは待ち時間を延ばしながら再試行して、それでも失敗したステップはエラーとして記録して次へ進む
+   */
+  const analyzeSteps = async (initialSteps: Step[], targetIds: string[], signal: AbortSignal) => {
+    const working = [...initialSteps];
+    const targets = new Set(targetIds);
+    const isParallel = analysisMode !== 'sequential';
+    const passCount = analysisMode === 'two-pass' ? 2 : 1;
+    // 直前のステップの結果を待たずに解析したステップ（two-pass の2回目の対象）
+    const deferredContext = new Set<string>();
+
+    /**
+     * ステップの解析状態・結果を書き込む（編集履歴には積まない）
+     * 解析中の編集（クリップ作成・他のステップの編集・元に戻すなど）を上書きしないよう、
+     * 現在の状態の該当ステップだけを更新する（削除済みなら何もしない）
+     * 更新内容が現在のステップに依存する場合は関数で渡す
+     */
+    const patchStep = (index: number, patch: Partial<Step> | ((step: Step) => Partial<Step>)) => {
+      const id = working[index].id;
+      const apply = (step: Step): Step => ({ ...step, ...(typeof patch === 'function' ? patch(step) : patch) });
+      working[index] = apply(working[index]);
+      stepHistory.replace(prev => prev.map(s => s.id === id ? apply(s) : s));
+    };
+    const updateProgress = (pass: number, finished: number, total: number) => {
+      setProgress(30 + ((pass - 1 + finished / total) / passCount) * 70); // 30-100%
+    };
+
+    /**
+     * 文脈として渡す直前の完了済みステップ
+     * 並列の1回目は今回の解析対象の結果を待たないため、直前が解析対象なら文脈なし（deferred）とする
+     */
+    const findPrevious = (index: number, pass: number): { step?: Step; deferred: boolean } => {
+      for (let i = index - 1; i >= 0; i--) {
+        if (isParallel && pass === 1 && targets.has(working[i].id)) return { deferred: true };
+        if (isStepDone(working[i])) return { step: working[i], deferred: false };
       }
+      return { deferred: false };
     };
 
+    const analyzeOne = async (id: string, pass: number) => {
+      const index = working.findIndex(s => s.id === id);
+      if (index < 0) return;
+
+      if (pass === 1) {
+        patchStep(index, { status: 'analyzing', error: undefined, errorCode: undefined });
+      }
+
+      const previous = findPrevious(index, pass);
+      const previousStep = previous.step
+        ? {
+          title: Object.values(previous.step.translations)[0]?.title || '',
+          description: Object.values(previous.step.translations)[0]?.description || ''
+        }
+        : undefined;
+
+      // 直前のステップからこのステップまでに話された内容
+      const spoken = transcript
+        ? getTranscriptBetween(transcript.cues, index > 0 ? working[index - 1].timestamp : 0, working[index].timestamp)
+        : '';
+
+      try {
+        const analysis = await withApiRetry(() => analyzeStep(
+          working[index].image,
+          `動画タイトル: "${videoName ?? ''}" のチュートリアル。ステップ ${index + 1}/${working.length}`,
+          selectedLangs,
+          previousStep,
+          spoken || undefined,
+          terminology ?? undefined,
+          signal
+        ), signal);
+        // 前回の結果から生成したままのアノテーションは捨て、新しい操作から生成し直す（ユーザーの編集は残す）
+        patchStep(index, step => ({
+          status: 'done',
+          translations: analysis.translations,
+          action: analysis.action ? toStepAction(analysis.action) : undefined,
+          boundingBox: analysis.box_2d ?? analysis.action?.targets?.[0]?.box_2d,
+          annotations: hasEditedAnnotations(step) ? step.annotations : undefined
+        }));
+        if (previous.deferred) deferredContext.add(id);
+      } catch (err) {
+        if (isAbortError(err)) {
+          // 中断されたステップは未解析に戻して再開できるようにする（2回目は1回目の結果を残す）
+          if (pass === 1) {
+            patchStep(index, { status: 'pending' });
+          }
+          throw err;
+        }
+        console.error(err);
+        // 2回目の解析に失敗した場合は1回目の結果を残す
+        if (pass > 1) return;
+        patchStep(index, {
+          status: 'error',
+          error: err instanceof Error ? err.message : 'Unknown error',
+          errorCode: err instanceof AnalysisApiError ? err.code : undefined
+        });
+      }
+    };
+
+    for (let pass = 1; pass <= passCount; pass++) {
+      // 2回目は直前のステップの結果を文脈にして解析し直す（直前のステップが解析できたものだけ）
+      const ids = pass === 1
+        ? targetIds
+        : targetIds.filter(id => deferredContext.has(id) && findPrevious(working.findIndex(s => s.id === id), pass).step);
+      let finished = 0;
+      await runWithConcurrency(ids, isParallel ? concurrency : 1, async (id) => {
+        await analyzeOne(id, pass);
+        updateProgress(pass, ++finished, ids.length);
+      }, signal);
+    }
+  };
+
+  /**
+   * 中断可能な処理を実行する（中断は正常終了として扱い、それ以外はエラー表示）
+   */
+  const runCancellable = async (task: (signal: AbortSignal) => Promise<void>, errorMessage: string) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     try {
-      await html2pdf().set(options).from(element).save();
+      setIsProcessing(true);
+      setError(null);
+      await task(controller.signal);
     } catch (err) {
-      console.error('PDF generation failed:', err);
-      window.print(); // フォールバック
+      if (!isAbortError(err)) {
+        console.error(err);
+        setError(errorMessage);
+      }
+    } finally {
+      abortRef.current = null;
+      setIsProcessing(false);
     }
   };
 
+  // 処理の中断（抽出中・解析中どちらでも有効）
+  const cancelProcessing = () => {
+    abortRef.current?.abort();
+  };
+
   const processVideo = async () => {
     if (!videoFile) return;
 
-    try {
-      setIsProcessing(true);
-      setError(null);
-      setSteps([]);
+    await runCancellable(async (signal) => {
+      stepHistory.reset([]);
+      setOverview(null);
+      setProjectId(createProjectId());
+      setIsEditing(false);
       setProgress(0);
       setProcessingPhase('scanning');
+      setVideoDuration(await getVideoDuration(videoFile));
 
       // フェーズ1: フレームの抽出（シーン変化検出 or 等間隔）
       const frames = await extractFrames(videoFile, {
         mode: extractionMode,
         maxFrames,
-        sensitivity: 0.15,
+        sensitivity,
+        scanInterval,
+        ignoreRegions,
+        settleDwell,
+        signal,
         onProgress: (p) => setProgress(Math.round(p * 0.3)), // 0-30%
-      });
+      }, sceneScan ?? undefined);
       setProgress(30);
       setProcessingPhase('analyzing');
 
-      const generatedSteps: Step[] = [];
+      // 抽出したフレームを未解析のステップとして先に並べる
+      const pendingSteps: Step[] = frames.map(frame => ({
+        id: createStepId(),
+        timestamp: frame.timestamp,
+        translations: {},
+        image: frame.dataUrl,
+        status: 'pending'
+      }));
+      stepHistory.reset(pendingSteps);
 
-      // フェーズ2: 各フレームをGeminiで解析（前ステップの文脈を渡す）
-      for (let i = 0; i < frames.length; i++) {
-        const frame = frames[i];
+      // フェーズ2: 各フレームをGeminiで解析（解析の進め方に従って前ステップの文脈を渡す）
+      await analyzeSteps(pendingSteps, pendingSteps.map(s => s.id), signal);
+    }, "動画の処理に失敗しました。APIキーまたはファイル形式を確認してください。");
+  };
 
-        // 前のステップの情報を取得（2つ目以降のフレーム）
-        const previousStep = generatedSteps.length > 0
-          ? {
-            title: Object.values(generatedSteps[generatedSteps.length - 1].translations)[0]?.title || '',
-            description: Object.values(generatedSteps[generatedSteps.length - 1].translations)[0]?.description || ''
-          }
-          : undefined;
+  // 中断後、未解析のステップから解析を再開
+  const resumeAnalysis = async () => {
+    setProcessingPhase('analyzing');
+    await runCancellable(
+      (signal) => analyzeSteps(steps, steps.filter(s => s.status === 'pending').map(s => s.id), signal),
+      "解析の再開に失敗しました。"
+    );
+  };
 
-        const analysis = await analyzeStep(
-          frame.dataUrl,
-          `動画タイトル: "${videoFile.name}" のチュートリアル。ステップ ${i + 1}/${frames.length}`,
-          selectedLangs,
-          previousStep
-        );
+  // 失敗したステップを個別に再解析
+  const retryStep = async (id: string) => {
+    setProcessingPhase('analyzing');
+    await runCancellable(
+      (signal) => analyzeSteps(steps, [id], signal),
+      "ステップの再解析に失敗しました。"
+    );
+  };
 
-        generatedSteps.push({
-          id: Math.random().toString(36).substr(2, 9),
-          timestamp: frame.timestamp,
-          translations: analysis.translations,
-          image: frame.dataUrl,
-          boundingBox: analysis.box_2d
-        });
+  // 元動画の任意の時刻から新しいステップを追加（必要ならAIで解析）
+  const insertStep = async (timestamp: number, analyze: boolean): Promise<boolean> => {
+    if (!videoFile) return false;
+
+    let image: string;
+    try {
+      setError(null);
+      image = await captureFrameAt(videoFile, timestamp);
+    } catch (err) {
+      console.error(err);
+      setError("フレームの取得に失敗しました。別の時刻を選ぶか、動画ファイルを確認してください。");
+      return false;
+    }
+    const newStep: Step = {
+      id: createStepId(),
+      timestamp,
+      // 手動入力できるよう、選択中の言語で空の翻訳を用意する
+      translations: Object.fromEntries(selectedLangs.map(lang => [lang, { title: '', description: '' }])),
+      image,
+      status: analyze ? 'pending' : 'done'
+    };
+    const next = insertStepByTimestamp(steps, newStep);
+    stepHistory.set(next);
+
+    if (analyze) {
+      setProcessingPhase('analyzing');
+      await runCancellable(
+        (signal) => analyzeSteps(next, [newStep.id], signal),
+        "追加したステップの解析に失敗しました。"
+      );
+    }
+    return true;
+  };
+
+  // 元動画からステップのクリップを作成（ステップの時刻から次のステップまで）
+  const createClip = async (stepId: string, format: ClipFormat) => {
+    if (!videoFile || clipJob) return;
+
+    const step = steps.find(s => s.id === stepId);
+    if (!step) return;
+
+    try {
+      setClipJob({ stepId, progress: 0 });
+      setError(null);
+      const { clip, blob } = await createStepClip(videoFile, step, getClipRange(steps, stepId), format, {
+        onProgress: (progress) => setClipJob({ stepId, progress }),
+      });
+      // クリップ本体は IndexedDB に保存し、ステップ（元に戻す履歴・自動保存の対象）には ID だけを持たせる
+      const ownerId = projectId ?? createProjectId();
+      if (!projectId) setProjectId(ownerId);
+      const blobId = await saveClip(ownerId, blob);
+      stepHistory.set(prev => updateClip(prev, stepId, { ...clip, blobId }));
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "クリップの作成に失敗しました。");
+    } finally {
+      setClipJob(null);
+    }
+  };
+
+  // ドラッグ&ドロップによる並べ替え
+  const handleDrop = (targetIndex: number) => {
+    const from = dragIndexRef.current;
+    dragIndexRef.current = null;
+    if (from !== null) {
+      stepHistory.set(prev => moveStep(prev, from, targetIndex));
+    }
+  };
 
-        setProgress(30 + ((i + 1) / frames.length) * 70); // 30-100%
+  // 編集モード中のキーボードショートカット（Ctrl/Cmd+Z: 元に戻す, Ctrl/Cmd+Shift+Z・Ctrl+Y: やり直し）
+  useEffect(() => {
+    if (!isEditing) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      // 入力欄の中ではブラウザ標準の取り消しを優先
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        stepHistory.undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        stepHistory.redo();
       }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isEditing, stepHistory.undo, stepHistory.redo]);
+
+  // 現在の状態をプロジェクトファイルにまとめる
+  const buildProjectFile = (id: string): ProjectFile => createProjectFile({
+    id,
+    videoName,
+    videoDuration: videoDuration ?? undefined,
+    manual: { title: manualTitle, steps, overview: overview ?? undefined },
+    languages: selectedLangs,
+    settings: { mode: extractionMode, maxFrames, sensitivity, scanInterval, settleDwell, ignoreRegions, analysisMode, concurrency },
+    transcript: transcript ?? undefined,
+    terminology: terminology ?? undefined,
+  });
+
+  const refreshRecentProjects = () => {
+    listRecentProjects()
+      .then(setRecentProjects)
+      .catch(err => console.error('Failed to list projects:', err));
+  };
+
+  useEffect(refreshRecentProjects, []);
 
-      setSteps(generatedSteps);
-      setProgress(100);
+  // 変更が落ち着いたらブラウザ（IndexedDB）に自動保存
+  useEffect(() => {
+    if (!projectId || steps.length === 0) return;
+
+    const timer = setTimeout(() => {
+      saveProject(buildProjectFile(projectId))
+        .then(() => {
+          setLastSavedAt(new Date());
+          refreshRecentProjects();
+        })
+        .catch(err => console.error('Autosave failed:', err));
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [projectId, steps, videoDuration, overview, selectedLangs, extractionMode, maxFrames, sensitivity, scanInterval, settleDwell, ignoreRegions, analysisMode, concurrency, transcript, terminology]);
+
+  // プロジェクトの内容を画面に復元する
+  const openProject = (project: ProjectFile) => {
+    const { settings } = project;
+    setVideoFile(null);
+    setProjectId(project.id);
+    setProjectVideoName(project.videoName ?? null);
+    setVideoDuration(project.videoDuration ?? null);
+    stepHistory.reset(project.manual.steps);
+    setOverview(project.manual.overview ?? null);
+    if (project.languages.length > 0) setSelectedLangs(project.languages);
+    setExtractionMode(settings.mode);
+    setMaxFrames(settings.maxFrames);
+    setSensitivity(settings.sensitivity);
+    setScanInterval(settings.scanInterval);
+    setSettleDwell(settings.settleDwell);
+    setAnalysisMode(settings.analysisMode);
+    setConcurrency(settings.concurrency);
+    setIgnoreRegions(settings.ignoreRegions);
+    setTranscript(project.transcript ?? null);
+    setTerminology(project.terminology ?? null);
+    setSceneScan(null);
+    setIsEditing(false);
+    setLastSavedAt(null);
+    setError(null);
+  };
+
+  const openRecentProject = async (id: string) => {
+    try {
+      const project = await loadProject(id);
+      if (project) openProject(project);
     } catch (err) {
       console.error(err);
-      setError("動画の処理に失敗しました。APIキーまたはファイル形式を確認してください。");
+      setError(err instanceof Error ? err.message : "プロジェクトを開けませんでした。");
+    }
+  };
+
+  const removeRecentProject = async (id: string) => {
+    await deleteProject(id).catch(err => console.error(err));
+    refreshRecentProjects();
+  };
+
+  const importProject = async (file: File) => {
+    try {
+      openProject(await storeProjectClips(parseProjectFile(await file.text())));
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "プロジェクトファイルを読み込めませんでした。");
+    }
+  };
+
+  // クリップは IndexedDB から読み出してファイルに埋め込む
+  const exportProject = () => runExport(async () => {
+    const project = buildProjectFile(projectId ?? createProjectId());
+    downloadProjectFile({ ...project, clips: await loadClipDataUrls(getClipIds(steps)) });
+  }, "プロジェクトファイルの書き出しに失敗しました。");
+
+  // 現在の手順書を閉じてトップ画面に戻る（自動保存済みの内容は一覧から再開できる）
+  const startNewProject = () => {
+    setVideoFile(null);
+    setProjectId(null);
+    setProjectVideoName(null);
+    stepHistory.reset([]);
+    setOverview(null);
+    setIsEditing(false);
+    setShowInsertPanel(false);
+    setError(null);
+  };
+
+  // 手順書全体をAIで見直す（重複の統合・不要なステップの削除・タイトルの統一と概要の生成）
+  // ステップの変更は1回の編集として履歴に積むため、元に戻すで取り消せる
+  const refineAllSteps = async () => {
+    const targets = steps.filter(isStepDone);
+    if (targets.length === 0) return;
+
+    try {
+      setIsRefining(true);
+      setError(null);
+      setRefineNotice(null);
+      const refinement = await withApiRetry(() => refineManual(
+        targets,
+        `動画タイトル: "${videoName ?? ''}" のチュートリアル。全 ${targets.length} ステップ`,
+        selectedLangs,
+        terminology ?? undefined
+      ));
+      stepHistory.set(prev => applyRefinement(prev, refinement));
+      if (Object.keys(refinement.overview).length > 0) setOverview(refinement.overview);
+
+      const merged = refinement.steps.filter(s => s.decision === 'merge').length;
+      const dropped = refinement.steps.filter(s => s.decision === 'drop').length;
+      setRefineNotice(`${merged}件のステップを統合、${dropped}件を削除し、タイトルと説明を整えました。`);
+    } catch (err) {
+      console.error(err);
+      setError("手順書の見直しに失敗しました。");
     } finally {
-      setIsProcessing(false);
+      setIsRefining(false);
+    }
+  };
+
+  // 既存の手順書に言語を追加する（画像は再解析せず、先頭の言語の文面から翻訳する）
+  // ステップの変更は1回の編集として履歴に積むため、元に戻すで取り消せる
+  const addLanguages = async (languages: string[]) => {
+    const sourceLanguage = exportLanguages[0];
+    const targets = steps.filter(isStepDone);
+    if (!sourceLanguage || targets.length === 0 || languages.length === 0) return;
+
+    try {
+      setIsTranslating(true);
+      setError(null);
+      setRefineNotice(null);
+      const translation = await withApiRetry(() =>
+        translateManual(targets, sourceLanguage, languages, overview?.[sourceLanguage], terminology ?? undefined)
+      );
+      stepHistory.set(prev => mergeTranslations(prev, translation));
+      if (translation.overview) setOverview(prev => ({ ...prev, ...translation.overview }));
+      setSelectedLangs(prev => [...prev, ...languages.filter(lang => !prev.includes(lang))]);
+
+      const missing = targets.length - translation.steps.length;
+      setRefineNotice(`${languages.length}言語を追加しました。${missing > 0 ? `${missing}件のステップは翻訳できませんでした。` : ''}`);
+    } catch (err) {
+      console.error(err);
+      setError("言語の追加に失敗しました。");
+    } finally {
+      setIsTranslating(false);
     }
   };
 
+  // 書き出し対象の手順書（解析が完了したステップのみ）
+  const buildExportManual = (): Manual => ({ title: manualTitle, steps: steps.filter(isStepDone), overview: overview ?? undefined });
+
+  // 書き出し対象の言語（選択中の言語のうち翻訳があるもの）
+  const exportLanguages = selectedLangs.filter(lang => steps.some(s => s.translations[lang]));
+
+  const runExport = async (task: () => Promise<void>, errorMessage: string) => {
+    try {
+      setIsExporting(true);
+      await task();
+    } catch (err) {
+      console.error(err);
+      setError(errorMessage);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // PDF書き出し（言語ごとに1ファイル、または全言語を併記した対訳1ファイル）
+  const exportPdf = (layout: 'per-language' | 'bilingual') => runExport(async () => {
+    const manual = buildExportManual();
+    const groups = layout === 'bilingual' ? [exportLanguages] : exportLanguages.map(lang => [lang]);
+    const fallbackLanguages = new Set<string>();
+    for (const langs of groups) {
+      const pdf = await createManualPdf(manual, langs, {
+        onFontFallback: (languages) => languages.forEach(lang => fallbackLanguages.add(lang)),
+      });
+      downloadBlob(
+        new Blob([pdf], { type: 'application/pdf' }),
+        `${sanitizeFileName(manual.title)}_操作手順書_${langs.join('-')}.pdf`
+      );
+    }
+    if (fallbackLanguages.size > 0) {
+      const names = [...fallbackLanguages].map(lang => getLanguage(lang).nativeLabel).join('・');
+      setError(`${names}のフォントを読み込めなかったため、一部の文字が正しく表示されない可能性があります。ページを再読み込みして書き出し直してください。`);
+    }
+  }, "PDFの生成に失敗しました。");
+
+  // Markdown + 画像の zip 書き出し
+  const exportMarkdown = () => runExport(async () => {
+    const manual = buildExportManual();
+    const zip = await createMarkdownBundle(manual, exportLanguages);
+    downloadBlob(zip, `${sanitizeFileName(manual.title)}_markdown.zip`);
+  }, "Markdownの書き出しに失敗しました。");
+
+  // オフラインで閲覧できる単一HTMLの書き出し
+  const exportHtml = () => runExport(async () => {
+    const manual = buildExportManual();
+    const clips = await loadClipDataUrls(getClipIds(manual.steps));
+    const html = await createHtmlManual(manual, exportLanguages, { clips });
+    downloadBlob(new Blob([html], { type: 'text/html' }), `${sanitizeFileName(manual.title)}_操作手順書.html`);
+  }, "HTMLの書き出しに失敗しました。");
+
+  // Word 文書の書き出し（言語ごとのセクション、または言語を列に並べた対訳表）
+  const exportDocx = (layout: DocxLayout) => runExport(async () => {
+    const manual = buildExportManual();
+    const docx = await createManualDocx(manual, exportLanguages, { layout, includeTimestamps });
+    downloadBlob(docx, `${sanitizeFileName(manual.title)}_操作手順書.docx`);
+  }, "Word文書の書き出しに失敗しました。");
+
+  // 研修用 PowerPoint の書き出し（先頭の言語をスライドに、他の言語を発表者ノートに記載）
+  const exportPptx = () => runExport(async () => {
+    const manual = buildExportManual();
+    const pptx = await createManualPptx(manual, exportLanguages, { includeAgenda });
+    downloadBlob(pptx, `${sanitizeFileName(manual.title)}_トレーニング.pptx`);
+  }, "PowerPointの書き出しに失敗しました。");
+
+  // 元動画用のチャプター・字幕・ナレーション原稿の書き出し
+  const exportSubtitles = () => runExport(async () => {
+    const manual = buildExportManual();
+    const zip = await createSubtitleBundle(manual, exportLanguages, videoDuration ?? undefined);
+    downloadBlob(zip, `${sanitizeFileName(manual.title)}_字幕・チャプター.zip`);
+  }, "字幕・チャプターの書き出しに失敗しました。");
+
+  const pendingCount = steps.filter(s => s.status === 'pending').length;
+  const hasCompletedSteps = steps.some(isStepDone);
+
+  // 用語集に違反している箇所（修正はステップの編集として履歴に積む）
+  const glossaryIssues = useMemo<GlossaryIssue[]>(
+    () => terminology && terminology.glossary.length > 0
+      ? checkGlossary(steps.filter(isStepDone), terminology.glossary, selectedLangs)
+      : [],
+    [steps, terminology, selectedLangs]
+  );
+
   return (
     <div className="min-h-screen pb-20 bg-[#f8fafc]">
       {/* Header */}
@@ -165,20 +742,105 @@ const App: React.FC = () => {
             </h1>
           </div>
 
-          {steps.length > 0 && (
-            <button
-              onClick={downloadPdf}
-              className="flex items-center gap-2 px-4 py-2 bg-slate-900 text-white rounded-lg hover:bg-slate-800 transition-all text-sm font-bold shadow-md active:scale-95"
-            >
-              <Download className="w-4 h-4" />
-              PDFで保存
-            </button>
+          {steps.length > 0 && !isProcessing && (
+            <div className="flex items-center gap-2">
+              {lastSavedAt && (
+                <span className="text-[10px] text-slate-400 mr-2">
+                  自動保存済み {lastSavedAt.toLocaleTimeString()}
+                </span>
+              )}
+              <button
+                onClick={startNewProject}
+                className="flex items-center gap-2 px-3 py-2 border border-slate-200 text-slate-600 rounded-lg hover:bg-slate-50 transition-all text-sm font-bold"
+                title="新しい動画から作成"
+              >
+                <FilePlus className="w-4 h-4" />
+                新規作成
+              </button>
+              <button
+                onClick={exportProject}
+                className="flex items-center gap-2 px-3 py-2 border border-slate-200 text-slate-600 rounded-lg hover:bg-slate-50 transition-all text-sm font-bold"
+                title="プロジェクトファイルとして書き出し"
+              >
+                <Save className="w-4 h-4" />
+                プロジェクトを保存
+              </button>
+              {hasCompletedSteps && (
+                <ExportMenu
+                  isExporting={isExporting}
+                  items={[
+                    {
+                      id: 'pdf',
+                      label: 'PDF（言語ごと）',
+                      description: '目次・ページ番号付きのPDFを言語ごとに出力',
+                      onSelect: () => exportPdf('per-language'),
+                    },
+                    ...(exportLanguages.length > 1 ? [{
+                      id: 'pdf-bilingual',
+                      label: 'PDF（対訳）',
+                      description: '各ステップに全言語を併記した1つのPDF',
+                      onSelect: () => exportPdf('bilingual'),
+                    }] : []),
+                    {
+                      id: 'markdown',
+                      label: 'Markdown（zip）',
+                      description: 'MkDocs / Docusaurus 向けの言語別Markdownと画像',
+                      onSelect: exportMarkdown,
+                    },
+                    {
+                      id: 'html',
+                      label: 'HTML（オフライン閲覧用）',
+                      description: '画像を埋め込んだ1ファイル。言語切替・検索・キーボード操作に対応',
+                      onSelect: exportHtml,
+                    },
+                    {
+                      id: 'docx',
+                      label: 'Word（言語ごと）',
+                      description: '言語ごとのセクションに見出し・番号・図を配置',
+                      onSelect: () => exportDocx('sections'),
+                    },
+                    ...(exportLanguages.length > 1 ? [{
+                      id: 'docx-table',
+                      label: 'Word（対訳表）',
+                      description: '各ステップの説明を言語ごとの列に並べた表',
+                      onSelect: () => exportDocx('table'),
+                    }] : []),
+                    {
+                      id: 'pptx',
+                      label: 'PowerPoint（研修用）',
+                      description: '1ステップ1スライド。枠や矢印は編集可能な図形で配置',
+                      onSelect: exportPptx,
+                    },
+                    {
+                      id: 'subtitles',
+                      label: 'チャプター・字幕（zip）',
+                      description: '言語別の WebVTT チャプター、VTT / SRT 字幕、ナレーション原稿',
+                      onSelect: exportSubtitles,
+                    },
+                  ]}
+                  options={[
+                    {
+                      id: 'timestamps',
+                      label: 'タイムスタンプを記載する（Word）',
+                      checked: includeTimestamps,
+                      onChange: setIncludeTimestamps,
+                    },
+                    {
+                      id: 'agenda',
+                      label: 'アジェンダスライドを入れる（PowerPoint）',
+                      checked: includeAgenda,
+                      onChange: setIncludeAgenda,
+                    },
+                  ]}
+                />
+              )}
+            </div>
           )}
         </div>
       </header>
 
       <main className="max-w-5xl mx-auto px-4 pt-10">
-        {!videoFile && !isProcessing && (
+        {!videoFile && !isProcessing && steps.length === 0 && (
           <div className="max-w-3xl mx-auto mt-10">
             <div className="text-center mb-10">
               <div className="inline-flex items-center gap-2 px-3 py-1 bg-indigo-50 text-indigo-700 rounded-full text-xs font-bold mb-4 border border-indigo-100">
@@ -216,6 +878,13 @@ const App: React.FC = () => {
                 </div>
               ))}
             </div>
+
+            <RecentProjects
+              projects={recentProjects}
+              onOpen={openRecentProject}
+              onDelete={removeRecentProject}
+              onImport={importProject}
+            />
           </div>
         )}
 
@@ -234,22 +903,33 @@ const App: React.FC = () => {
                   <Languages className="w-5 h-5 text-indigo-600" />
                   <span className="font-bold text-slate-700">出力言語を選択してください:</span>
                 </div>
-                <div className="grid grid-cols-2 gap-3">
-                  {languages.map(lang => (
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                  {LANGUAGES.map(lang => (
                     <button
-                      key={lang.id}
-                      onClick={() => toggleLanguage(lang.id)}
-                      className={`flex items-center justify-between p-3 rounded-xl border-2 transition-all font-medium ${selectedLangs.includes(lang.id)
+                      key={lang.code}
+                      onClick={() => toggleLanguage(lang.code)}
+                      title={lang.name}
+                      className={`flex items-center justify-between p-3 rounded-xl border-2 transition-all font-medium ${selectedLangs.includes(lang.code)
                         ? 'border-indigo-500 bg-white text-indigo-700 shadow-sm'
                         : 'border-transparent bg-white/50 text-slate-400 hover:border-slate-300'
                         }`}
                     >
-                      <span>{lang.label}</span>
-                      {selectedLangs.includes(lang.id) && <CheckCircle className="w-4 h-4 text-indigo-600" />}
+                      <span dir={lang.dir}>{lang.nativeLabel}</span>
+                      {selectedLangs.includes(lang.code) && <CheckCircle className="w-4 h-4 text-indigo-600" />}
                     </button>
                   ))}
                 </div>
 
+                {/* 字幕・文字起こし */}
+                <div className="mt-6">
+                  <TranscriptInput transcript={transcript} onChange={setTranscript} />
+                </div>
+
+                {/* 用語集・スタイルガイド */}
+                <div className="mt-3">
+                  <TerminologyInput terminology={terminology} onChange={setTerminology} languages={selectedLangs} />
+                </div>
+
                 {/* フレーム抽出設定 */}
                 <div className="mt-6 pt-6 border-t border-slate-200">
                   <div className="flex items-center gap-2 mb-4">
@@ -306,6 +986,145 @@ const App: React.FC = () => {
                       <span>15</span>
                     </div>
                   </div>
+
+                  {/* スキャン間隔（シーン検出モードのみ） */}
+                  {extractionMode === 'auto' && (
+                    <div className="bg-white p-4 rounded-xl border border-slate-100 mt-4">
+                      <div className="flex items-center justify-between mb-2">
+                        <span className="text-sm text-slate-600">スキャン間隔</span>
+                        <span className="text-sm font-bold text-indigo-600 bg-indigo-50 px-2 py-0.5 rounded-lg">{scanInterval}秒</span>
+                      </div>
+                      <div className="grid grid-cols-5 gap-2">
+                        {SCAN_INTERVAL_OPTIONS.map(interval => (
+                          <button
+                            key={interval}
+                            onClick={() => updateScanInterval(interval)}
+                            className={`py-1.5 rounded-lg border text-xs font-bold transition-all ${scanInterval === interval
+                              ? 'border-indigo-500 bg-indigo-50 text-indigo-700'
+                              : 'border-slate-200 text-slate-400 hover:border-slate-300'
+                              }`}
+                          >
+                            {interval}秒
+                          </button>
+                        ))}
+                      </div>
+                      <p className="text-[10px] text-slate-400 mt-1">
+                        短い操作デモは細かく、長時間の録画は粗くスキャンします（検出した変化点はフレーム単位まで絞り込みます）
+                      </p>
+                    </div>
+                  )}
+
+                  {/* 安定待ち時間（シーン検出モードのみ） */}
+                  {extractionMode === 'auto' && (
+                    <div className="bg-white p-4 rounded-xl border border-slate-100 mt-4">
+                      <div className="flex items-center justify-between mb-2">
+                        <span className="text-sm text-slate-600">画面の安定待ち時間</span>
+                        <span className="text-sm font-bold text-indigo-600 bg-indigo-50 px-2 py-0.5 rounded-lg">
+                          {settleDwell === 0 ? 'オフ' : `${settleDwell.toFixed(1)}秒`}
+                        </span>
+                      </div>
+                      <input
+                        type="range"
+                        min="0"
+                        max="2"
+                        step="0.1"
+                        value={settleDwell}
+                        onChange={(e) => setSettleDwell(Number(e.target.value))}
+                        className="w-full h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                      />
+                      <p className="text-[10px] text-slate-400 mt-1">
+                        変化の途中ではなく、アニメーションや描画が落ち着いた後のフレームを撮影します
+                      </p>
+                    </div>
+                  )}
+
+                  {/* 除外領域（シーン検出モードのみ） */}
+                  {extractionMode === 'auto' && (
+                    <div className="mt-4">
+                      <IgnoreRegionEditor
+                        videoFile={videoFile}
+                        regions={ignoreRegions}
+                        onChange={updateIgnoreRegions}
+                      />
+                    </div>
+                  )}
+
+                  {/* 変化スコアのタイムライン（シーン検出モードのみ） */}
+                  {extractionMode === 'auto' && (
+                    <div className="mt-4">
+                      {sceneScan ? (
+                        <ChangeTimeline
+                          scan={sceneScan}
+                          threshold={effectiveThreshold}
+                          isAuto={sensitivity === 'auto'}
+                          selected={previewFrames}
+                          onThresholdChange={setSensitivity}
+                          onResetAuto={() => setSensitivity('auto')}
+                        />
+                      ) : (
+                        <button
+                          onClick={scanVideo}
+                          disabled={isScanning}
+                          className="w-full flex items-center justify-center gap-2 p-3 rounded-xl border-2 border-dashed border-slate-300 text-sm font-bold text-slate-500 hover:border-indigo-400 hover:text-indigo-600 transition-all disabled:opacity-60"
+                        >
+                          {isScanning ? (
+                            <>
+                              <Loader2 className="w-4 h-4 animate-spin" />
+                              スキャン中... {scanProgress}%
+                            </>
+                          ) : (
+                            <>
+                              <Activity className="w-4 h-4" />
+                              変化スコアをスキャンして閾値を確認
+                            </>
+                          )}
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                {/* 解析の進め方 */}
+                <div className="mt-6 pt-6 border-t border-slate-200">
+                  <div className="flex items-center gap-2 mb-4">
+                    <Zap className="w-5 h-5 text-indigo-600" />
+                    <span className="font-bold text-slate-700">解析の進め方:</span>
+                  </div>
+                  <div className="grid grid-cols-3 gap-3">
+                    {ANALYSIS_MODE_OPTIONS.map(option => (
+                      <button
+                        key={option.mode}
+                        onClick={() => setAnalysisMode(option.mode)}
+                        className={`p-3 rounded-xl border-2 transition-all font-medium text-left ${analysisMode === option.mode
+                          ? 'border-indigo-500 bg-white text-indigo-700 shadow-sm'
+                          : 'border-transparent bg-white/50 text-slate-400 hover:border-slate-300'
+                          }`}
+                      >
+                        <div className="text-sm font-bold">{option.label}</div>
+                        <div className="text-[10px] opacity-70">{option.description}</div>
+                      </button>
+                    ))}
+                  </div>
+
+                  {analysisMode !== 'sequential' && (
+                    <div className="bg-white p-4 rounded-xl border border-slate-100 mt-4">
+                      <div className="flex items-center justify-between mb-2">
+                        <span className="text-sm text-slate-600">同時リクエスト数</span>
+                        <span className="text-sm font-bold text-indigo-600 bg-indigo-50 px-2 py-0.5 rounded-lg">{concurrency}</span>
+                      </div>
+                      <input
+                        type="range"
+                        min="1"
+                        max={MAX_CONCURRENCY}
+                        value={concurrency}
+                        onChange={(e) => setConcurrency(Number(e.target.value))}
+                        className="w-full h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                      />
+                      <p className="text-[10px] text-slate-400 mt-1">
+                        多いほど速く終わりますが、APIのレート制限に掛かりやすくなります（制限時は待ってから自動で再試行します）
+                      </p>
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -318,7 +1137,8 @@ const App: React.FC = () => {
                 </button>
                 <button
                   onClick={processVideo}
-                  className="flex-[2] py-4 px-6 bg-indigo-600 text-white rounded-2xl font-bold hover:bg-indigo-700 shadow-xl shadow-indigo-100 flex items-center justify-center gap-3 group transition-all"
+                  disabled={isScanning}
+                  className="flex-[2] py-4 px-6 bg-indigo-600 text-white rounded-2xl font-bold hover:bg-indigo-700 shadow-xl shadow-indigo-100 flex items-center justify-center gap-3 group transition-all disabled:opacity-60"
                 >
                   解析を開始する
                   <ArrowRight className="w-5 h-5 group-hover:translate-x-1 transition-transform" />
@@ -328,7 +1148,7 @@ const App: React.FC = () => {
           </div>
         )}
 
-        {isProcessing && (
+        {isProcessing && steps.length === 0 && (
           <div className="max-w-xl mx-auto text-center py-20 animate-in fade-in duration-500">
             <div className="relative w-32 h-32 mx-auto mb-10">
               <div className="absolute inset-0 rounded-full border-4 border-indigo-100 border-t-indigo-600 animate-spin"></div>
@@ -351,6 +1171,13 @@ const App: React.FC = () => {
                 <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/20 to-transparent animate-pulse"></div>
               </div>
             </div>
+
+            <button
+              onClick={cancelProcessing}
+              className="mt-8 px-6 py-2 border border-slate-200 text-slate-600 text-sm font-bold rounded-xl hover:bg-slate-50 transition-colors"
+            >
+              中断する
+            </button>
           </div>
         )}
 
@@ -367,19 +1194,73 @@ const App: React.FC = () => {
           </div>
         )}
 
-        {steps.length > 0 && !isProcessing && (
+        {steps.length > 0 && (
           <div className="space-y-12 animate-in fade-in duration-1000 print:space-y-8">
+            {/* 解析中の進捗（完了したステップは下に順次表示される） */}
+            {isProcessing && (
+              <div className="sticky top-20 z-10 bg-white p-4 rounded-2xl border border-slate-200 shadow-md flex items-center gap-4 print:hidden">
+                <Loader2 className="w-5 h-5 text-indigo-600 animate-spin shrink-0" />
+                <div className="flex-1">
+                  <p className="text-sm font-bold text-slate-700 mb-2">
+                    AIが各フレームを分析しています... {Math.round(progress)}%
+                  </p>
+                  <div className="w-full bg-slate-100 h-2 rounded-full overflow-hidden">
+                    <div className="bg-indigo-600 h-full transition-all duration-700 ease-out" style={{ width: `${progress}%` }} />
+                  </div>
+                </div>
+                <button
+                  onClick={cancelProcessing}
+                  className="px-4 py-2 border border-slate-200 text-slate-600 text-sm font-bold rounded-xl hover:bg-slate-50 transition-colors"
+                >
+                  中断する
+                </button>
+              </div>
+            )}
+
+            {/* 中断後の再開 */}
+            {!isProcessing && pendingCount > 0 && (
+              <div className="bg-amber-50 p-4 rounded-2xl border border-amber-200 flex items-center justify-between gap-4 print:hidden">
+                <p className="text-sm text-amber-800 font-medium">
+                  解析が中断されました。未解析のステップが {pendingCount} 件あります。
+                </p>
+                <button
+                  onClick={resumeAnalysis}
+                  className="flex items-center gap-2 px-4 py-2 bg-amber-500 text-white text-sm font-bold rounded-xl hover:bg-amber-600 transition-colors"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  残りを再開
+                </button>
+              </div>
+            )}
+
             <div className="flex flex-col md:flex-row md:items-end justify-between gap-8 mb-12 pb-10 border-b-2 border-slate-100">
               <div className="flex-1">
-                <div className="inline-flex items-center gap-2 px-3 py-1 bg-green-100 text-green-700 text-xs font-bold rounded-full mb-4 uppercase tracking-widest border border-green-200">
-                  <CheckCircle className="w-3 h-3" />
-                  解析完了
-                </div>
-                <h2 className="text-4xl font-black text-slate-900 tracking-tight leading-tight">操作手順マニュアル</h2>
+                {!isProcessing && pendingCount === 0 && (
+                  <div className="inline-flex items-center gap-2 px-3 py-1 bg-green-100 text-green-700 text-xs font-bold rounded-full mb-4 uppercase tracking-widest border border-green-200">
+                    <CheckCircle className="w-3 h-3" />
+                    解析完了
+                  </div>
+                )}
+                <h2 className="text-4xl font-black text-slate-900 tracking-tight leading-tight">
+                  {manualOverview?.title || '操作手順マニュアル'}
+                </h2>
                 <p className="text-slate-500 mt-3 flex items-center gap-2">
                   <FileVideo className="w-4 h-4" />
-                  参照動画: {videoFile?.name}
+                  参照動画: {videoName ?? '不明'}
                 </p>
+                {manualOverview && (
+                  <div className="mt-4 space-y-2 text-sm text-slate-600">
+                    {manualOverview.summary && <p>{manualOverview.summary}</p>}
+                    {manualOverview.prerequisites.length > 0 && (
+                      <div>
+                        <p className="text-xs font-bold text-slate-400 mb-1">前提条件</p>
+                        <ul className="list-disc list-inside space-y-0.5">
+                          {manualOverview.prerequisites.map((item, i) => <li key={i}>{item}</li>)}
+                        </ul>
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
               <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm flex items-center gap-6 min-w-[240px]">
                 <div className="text-center flex-1">
@@ -394,9 +1275,138 @@ const App: React.FC = () => {
               </div>
             </div>
 
+            {/* 編集ツールバー */}
+            {!isProcessing && (
+              <div className="flex items-center justify-between gap-4 print:hidden">
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => {
+                      setIsEditing(!isEditing);
+                      setShowInsertPanel(false);
+                    }}
+                    className={`flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-bold border transition-colors ${isEditing
+                      ? 'bg-indigo-600 text-white border-indigo-600 hover:bg-indigo-700'
+                      : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'
+                      }`}
+                  >
+                    <Pencil className="w-4 h-4" />
+                    {isEditing ? '編集を終了' : 'ステップを編集'}
+                  </button>
+
+                  {hasCompletedSteps && (
+                    <button
+                      onClick={refineAllSteps}
+                      disabled={isRefining}
+                      className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-bold bg-white text-indigo-600 border border-indigo-200 hover:bg-indigo-50 transition-colors disabled:opacity-60"
+                      title="重複・不要なステップを整理し、タイトルと説明の表現をそろえ、手順書の概要を作成します"
+                    >
+                      {isRefining ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+                      {isRefining ? '見直し中...' : 'AIで全体を見直す'}
+                    </button>
+                  )}
+
+                  {hasCompletedSteps && exportLanguages.length > 0 && (
+                    <AddLanguageMenu
+                      existingLanguages={exportLanguages}
+                      sourceLanguage={exportLanguages[0]}
+                      onTranslate={addLanguages}
+                      isTranslating={isTranslating}
+                    />
+                  )}
+                </div>
+
+                {isEditing && (
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={stepHistory.undo}
+                      disabled={!stepHistory.canUndo}
+                      className="p-2 rounded-lg border border-slate-200 bg-white text-slate-600 hover:bg-slate-50 disabled:opacity-40"
+                      title="元に戻す (Ctrl+Z)"
+                    >
+                      <Undo2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={stepHistory.redo}
+                      disabled={!stepHistory.canRedo}
+                      className="p-2 rounded-lg border border-slate-200 bg-white text-slate-600 hover:bg-slate-50 disabled:opacity-40"
+                      title="やり直し (Ctrl+Shift+Z)"
+                    >
+                      <Redo2 className="w-4 h-4" />
+                    </button>
+                    {videoFile && (
+                      <button
+                        onClick={() => setShowInsertPanel(true)}
+                        className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-bold bg-white text-indigo-600 border border-indigo-200 hover:bg-indigo-50 transition-colors"
+                      >
+                        <Plus className="w-4 h-4" />
+                        ステップを追加
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {refineNotice && (
+              <div className="bg-indigo-50 p-4 rounded-2xl border border-indigo-100 flex items-center justify-between gap-4 print:hidden">
+                <p className="text-sm text-indigo-800 font-medium">
+                  {refineNotice} 編集モードの「元に戻す」で取り消せます。
+                </p>
+                <button
+                  onClick={() => setRefineNotice(null)}
+                  className="text-xs font-bold text-indigo-500 hover:text-indigo-700"
+                >
+                  閉じる
+                </button>
+              </div>
+            )}
+
+            {!isProcessing && glossaryIssues.length > 0 && (
+              <GlossaryCheckPanel
+                steps={steps}
+                issues={glossaryIssues}
+                onFix={(issues) => stepHistory.set(prev => fixGlossaryIssues(prev, issues))}
+              />
+            )}
+
+            {isEditing && showInsertPanel && videoFile && (
+              <InsertStepPanel
+                videoFile={videoFile}
+                onInsert={insertStep}
+                onClose={() => setShowInsertPanel(false)}
+              />
+            )}
+
             <div className="print:block">
               {steps.map((step, index) => (
-                <StepCard key={step.id} step={step} index={index} />
+                <div
+                  key={step.id}
+                  onDragOver={isEditing ? (e) => e.preventDefault() : undefined}
+                  onDrop={isEditing ? () => handleDrop(index) : undefined}
+                >
+                  <StepCard
+                    step={step}
+                    index={index}
+                    labelLang={selectedLangs[0]}
+                    onRetry={isProcessing ? undefined : () => retryStep(step.id)}
+                    isEditing={isEditing && !isProcessing}
+                    onChangeTranslation={(lang, patch) =>
+                      stepHistory.set(prev => updateTranslation(prev, step.id, lang, patch))}
+                    onDelete={() => stepHistory.set(prev => deleteStep(prev, step.id))}
+                    onMergeNext={index < steps.length - 1
+                      ? () => stepHistory.set(prev => mergeWithNext(prev, step.id))
+                      : undefined}
+                    onChangeAnnotations={(annotations) =>
+                      stepHistory.set(prev => updateAnnotations(prev, step.id, annotations))}
+                    onCreateClip={videoFile ? (format) => createClip(step.id, format) : undefined}
+                    onRemoveClip={() => stepHistory.set(prev => updateClip(prev, step.id, undefined))}
+                    clipProgress={clipJob?.stepId === step.id ? clipJob.progress : undefined}
+                    onDragStart={(e) => {
+                      dragIndexRef.current = index;
+                      e.dataTransfer.effectAllowed = 'move';
+                    }}
+                  />
+                </div>
               ))}
             </div>
 
@@ -0,0 +1,199 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import type { GeminiStepResponse, ManualRefinement, ManualTranslation } from '../types.js';
+import type { AnalysisProvider, AnalyzeRequest, RefineRequest, TranslateRequest } from './types.js';
+import { ACTION_TYPES, SCROLL_DIRECTIONS, TARGET_ROLES, buildRefinePrompt, buildStepPrompt, buildTranslatePrompt, stripDataUrlPrefix } from './prompt.js';
+import { parseModelJson } from './validate.js';
+
+/** 既定のモデル名（GEMINI_MODEL 環境変数で上書き可能） */
+export const DEFAULT_GEMINI_MODEL = "gemini-3-flash-preview";
+
+/**
+ * 言語コードをキーにしたオブジェクトのスキーマを生成
+ */
+function buildPerLanguageSchema(languages: string[], itemSchema: object) {
+    return {
+        type: Type.OBJECT,
+        properties: languages.reduce((acc, lang) => ({ ...acc, [lang]: itemSchema }), {})
+    };
+}
+
+/** タイトルと説明のスキーマ */
+const TRANSLATION_SCHEMA = {
+    type: Type.OBJECT,
+    properties: {
+        title: { type: Type.STRING },
+        description: { type: Type.STRING }
+    },
+    required: ["title", "description"]
+};
+
+/** 手順書の概要のスキーマ */
+const OVERVIEW_SCHEMA = {
+    type: Type.OBJECT,
+    properties: {
+        title: { type: Type.STRING },
+        summary: { type: Type.STRING },
+        prerequisites: { type: Type.ARRAY, items: { type: Type.STRING } }
+    },
+    required: ["title", "summary", "prerequisites"]
+};
+
+/**
+ * リクエストされた言語ごとのレスポンススキーマを生成
+ */
+function buildResponseSchema(languages: string[]) {
+    return {
+        type: Type.OBJECT,
+        properties: {
+            translations: buildPerLanguageSchema(languages, TRANSLATION_SCHEMA),
+            box_2d: {
+                type: Type.ARRAY,
+                items: { type: Type.NUMBER },
+                description: "[ymin, xmin, ymax, xmax] normalized 0-1000"
+            },
+            action: {
+                type: Type.OBJECT,
+                properties: {
+                    type: { type: Type.STRING, enum: ACTION_TYPES },
+                    targets: {
+                        type: Type.ARRAY,
+                        items: {
+                            type: Type.OBJECT,
+                            properties: {
+                                role: { type: Type.STRING, enum: TARGET_ROLES },
+                                box_2d: {
+                                    type: Type.ARRAY,
+                                    items: { type: Type.NUMBER },
+                                    description: "[ymin, xmin, ymax, xmax] normalized 0-1000"
+                                }
+                            },
+                            required: ["role", "box_2d"]
+                        }
+                    },
+                    text: { type: Type.STRING, description: "Literal text typed (type only)" },
+                    keys: {
+                        type: Type.ARRAY,
+                        items: { type: Type.STRING },
+                        description: "Keys pressed, e.g. [\"Ctrl\", \"S\"] (shortcut only)"
+                    },
+                    direction: { type: Type.STRING, enum: SCROLL_DIRECTIONS }
+                },
+                required: ["type"]
+            }
+        },
+        required: ["translations"]
+    };
+}
+
+/**
+ * 手順書全体の見直しのレスポンススキーマを生成
+ */
+function buildRefineSchema(languages: string[]) {
+    return {
+        type: Type.OBJECT,
+        properties: {
+            overview: buildPerLanguageSchema(languages, OVERVIEW_SCHEMA),
+            steps: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        id: { type: Type.STRING },
+                        decision: { type: Type.STRING, enum: ["keep", "merge", "drop"] },
+                        mergeInto: { type: Type.STRING },
+                        reason: { type: Type.STRING },
+                        translations: buildPerLanguageSchema(languages, TRANSLATION_SCHEMA)
+                    },
+                    required: ["id", "decision"]
+                }
+            }
+        },
+        required: ["overview", "steps"]
+    };
+}
+
+/**
+ * 手順書の翻訳のレスポンススキーマを生成
+ */
+function buildTranslateSchema(languages: string[], includeOverview: boolean) {
+    return {
+        type: Type.OBJECT,
+        properties: {
+            steps: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        id: { type: Type.STRING },
+                        translations: buildPerLanguageSchema(languages, TRANSLATION_SCHEMA)
+                    },
+                    required: ["id", "translations"]
+                }
+            },
+            ...(includeOverview ? { overview: buildPerLanguageSchema(languages, OVERVIEW_SCHEMA) } : {})
+        },
+        required: ["steps"]
+    };
+}
+
+/**
+ * Gemini API を使う解析プロバイダーを生成
+ */
+export const createGeminiProvider = (
+    apiKey: string,
+    model: string = DEFAULT_GEMINI_MODEL
+): AnalysisProvider => {
+    const ai = new GoogleGenAI({ apiKey });
+
+    return {
+        name: `gemini (${model})`,
+        async analyzeStep(request: AnalyzeRequest): Promise<GeminiStepResponse> {
+            const response = await ai.models.generateContent({
+                model,
+                contents: {
+                    parts: [
+                        {
+                            inlineData: {
+                                mimeType: "image/jpeg",
+                                data: stripDataUrlPrefix(request.imageData),
+                            },
+                        },
+                        { text: buildStepPrompt(request) }
+                    ],
+                },
+                config: {
+                    responseMimeType: "application/json",
+                    responseSchema: buildResponseSchema(request.languages)
+                }
+            });
+
+            return parseModelJson(response.text);
+        },
+
+        async refineManual(request: RefineRequest): Promise<ManualRefinement> {
+            const response = await ai.models.generateContent({
+                model,
+                contents: { parts: [{ text: buildRefinePrompt(request) }] },
+                config: {
+                    responseMimeType: "application/json",
+                    responseSchema: buildRefineSchema(request.languages)
+                }
+            });
+
+            return parseModelJson(response.text);
+        },
+
+        async translateManual(request: TranslateRequest): Promise<ManualTranslation> {
+            const response = await ai.models.generateContent({
+                model,
+                contents: { parts: [{ text: buildTranslatePrompt(request) }] },
+                config: {
+                    responseMimeType: "application/json",
+                    responseSchema: buildTranslateSchema(request.targetLanguages, !!request.overview)
+                }
+            });
+
+            return parseModelJson(response.text);
+        }
+    };
+};
@@ -0,0 +1,280 @@
+import type { AnalysisErrorBody, GeminiStepResponse } from '../types.js';
+import type { AnalysisProvider, AnalysisResult, AnalyzeRequest, RefineRequest, RefineStepInput, TranslateRequest, TranslateStepInput } from './types.js';
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from './geminiProvider.js';
+import { createMockProvider } from './mockProvider.js';
+import { sanitizeRefinement } from './refine.js';
+import { sanitizeTranslation } from './translate.js';
+import { sanitizeTerminology } from './terminology.js';
+import { AnalysisResponseError, validateStepResponse } from './validate.js';
+import { buildCorrectionNote } from './prompt.js';
+import { getErrorStatus, getProviderRetryAfter, isTransientProviderError, withProviderRetry } from './retryPolicy.js';
+import { isSupportedLanguage, toCanonicalLanguageCode } from '../languages.js';
+
+/**
+ * 解析モジュールの共通エントリポイント
+ * Vercel Function (api/*.ts) とローカル開発サーバー (server.ts) は
+ * このモジュールを呼び出すだけの薄いアダプターとする
+ */
+
+export type { AnalysisProvider, AnalysisResult, AnalyzeRequest, RefineRequest, RefineStepInput, TranslateRequest, TranslateStepInput } from './types.js';
+export { createGeminiProvider } from './geminiProvider.js';
+export { createMockProvider } from './mockProvider.js';
+export { AnalysisResponseError } from './validate.js';
+
+/** モデルの出力に不備があった場合に再試行する回数 */
+const MAX_CORRECTION_RETRIES = 1;
+
+/** 利用可能なプロバイダー名 */
+export type ProviderName = 'gemini' | 'mock';
+
+/** サーバー設定の不備など、クライアント入力以外に起因するエラー */
+export class AnalysisConfigError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AnalysisConfigError';
+    }
+}
+
+/**
+ * 環境変数からプロバイダーを選択して生成
+ * - ANALYSIS_PROVIDER: 'gemini'（既定）または 'mock'
+ * - GEMINI_API_KEY: Gemini 利用時に必須
+ * - GEMINI_MODEL: 使用するモデル名（省略時は既定モデル）
+ */
+export const getAnalysisProvider = (env: NodeJS.ProcessEnv = process.env): AnalysisProvider => {
+    const providerName = (env.ANALYSIS_PROVIDER || 'gemini') as ProviderName;
+
+    switch (providerName) {
+        case 'mock':
+            return createMockProvider();
+        case 'gemini': {
+            const apiKey = env.GEMINI_API_KEY;
+            if (!apiKey) {
+                throw new AnalysisConfigError('GEMINI_API_KEY is not set (set ANALYSIS_PROVIDER=mock to run without an API key)');
+            }
+            return createGeminiProvider(apiKey, env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL);
+        }
+        default:
+            throw new AnalysisConfigError(`Unknown ANALYSIS_PROVIDER: ${providerName}`);
+    }
+};
+
+/**
+ * 解析リクエストを処理し、HTTPステータスとレスポンスボディを返す
+ */
+export const handleAnalyzeRequest = async (
+    body: Partial<AnalyzeRequest> | undefined,
+    provider?: AnalysisProvider
+): Promise<AnalysisResult> => {
+    const { imageData, contextPrompt, languages, previousStep, transcript } = body ?? {};
+    const terminology = sanitizeTerminology(body?.terminology);
+
+    // 入力バリデーション
+    if (!imageData || !contextPrompt || !languages || languages.length === 0) {
+        return { status: 400, body: { error: 'Missing required parameters', code: 'invalid_request' } };
+    }
+    const languageError = validateLanguages(languages);
+    if (languageError) return languageError;
+
+    try {
+        const activeProvider = provider ?? getAnalysisProvider();
+        const result = await analyzeWithCorrection(activeProvider, { imageData, contextPrompt, languages, previousStep, transcript, terminology });
+        return { status: 200, body: result };
+    } catch (error) {
+        return toErrorResult(error, 'Failed to analyze image');
+    }
+};
+
+/**
+ * 手順書全体の見直しリクエストを処理し、HTTPステータスとレスポンスボディを返す
+ */
+export const handleRefineRequest = async (
+    body: Partial<RefineRequest> | undefined,
+    provider?: AnalysisProvider
+): Promise<AnalysisResult> => {
+    const { contextPrompt, languages, steps } = body ?? {};
+    const terminology = sanitizeTerminology(body?.terminology);
+
+    // 入力バリデーション
+    if (!contextPrompt || !languages || languages.length === 0 || !Array.isArray(steps) || steps.length === 0) {
+        return { status: 400, body: { error: 'Missing required parameters', code: 'invalid_request' } };
+    }
+    const languageError = validateLanguages(languages);
+    if (languageError) return languageError;
+    if (!steps.every(isRefineStepInput)) {
+        return { status: 400, body: { error: 'Each step must have an id string, a timestamp number and a translations object', code: 'invalid_request' } };
+    }
+
+    try {
+        const activeProvider = provider ?? getAnalysisProvider();
+        const request: RefineRequest = { contextPrompt, languages, steps, terminology };
+        const result = await withProviderRetry(() => activeProvider.refineManual(request));
+        return { status: 200, body: sanitizeRefinement(request, result) };
+    } catch (error) {
+        return toErrorResult(error, 'Failed to refine manual');
+    }
+};
+
+/**
+ * 既存の手順書の翻訳リクエストを処理し、HTTPステータスとレスポンスボディを返す
+ */
+export const handleTranslateRequest = async (
+    body: Partial<TranslateRequest> | undefined,
+    provider?: AnalysisProvider
+): Promise<AnalysisResult> => {
+    const { sourceLanguage, targetLanguages, steps, overview } = body ?? {};
+    const terminology = sanitizeTerminology(body?.terminology);
+
+    // 入力バリデーション
+    if (!sourceLanguage || !targetLanguages || targetLanguages.length === 0 || !Array.isArray(steps) || steps.length === 0) {
+        return { status: 400, body: { error: 'Missing required parameters', code: 'invalid_request' } };
+    }
+    const languageError = validateLanguages([sourceLanguage, ...targetLanguages]);
+    if (languageError) return languageError;
+    if (targetLanguages.includes(sourceLanguage)) {
+        return { status: 400, body: { error: 'targetLanguages must not include sourceLanguage', code: 'invalid_request' } };
+    }
+    if (!steps.every(isTranslateStepInput)) {
+        return { status: 400, body: { error: 'Each step must have id, title and description strings', code: 'invalid_request' } };
+    }
+
+    try {
+        const activeProvider = provider ?? getAnalysisProvider();
+        const request: TranslateRequest = { sourceLanguage, targetLanguages, steps, overview, terminology };
+        const result = await withProviderRetry(() => activeProvider.translateManual(request));
+        return { status: 200, body: sanitizeTranslation(request, result) };
+    } catch (error) {
+        return toErrorResult(error, 'Failed to translate manual');
+    }
+};
+
+/**
+ * 言語コードを検証する（レジストリにないコードがあれば 400 のエラー結果を返す）
+ * 結果のキーにそのまま使うため、大文字小文字だけが違う表記も正しい表記を添えて拒否する
+ */
+function validateLanguages(languages: string[]): AnalysisResult | null {
+    if (!Array.isArray(languages)) {
+        return { status: 400, body: { error: 'languages must be an array of language codes', code: 'invalid_request' } };
+    }
+    const unsupported = languages.filter(code => !isSupportedLanguage(code));
+    if (unsupported.length === 0) return null;
+    return {
+        status: 400,
+        body: {
+            error: `Unsupported language code(s): ${unsupported.map(describeUnsupportedCode).join(', ')}`,
+            code: 'unsupported_language'
+        }
+    };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/** 見直しリクエストのステップとして扱える形か（モデルへ渡す前に不正な要素を弾く） */
+function isRefineStepInput(value: unknown): value is RefineStepInput {
+    return isRecord(value)
+        && typeof value.id === 'string'
+        && typeof value.timestamp === 'number'
+        && isRecord(value.translations);
+}
+
+/** 翻訳リクエストのステップとして扱える形か */
+function isTranslateStepInput(value: unknown): value is TranslateStepInput {
+    return isRecord(value)
+        && typeof value.id === 'string'
+        && typeof value.title === 'string'
+        && typeof value.description === 'string';
+}
+
+/** 対応していない言語コードの表示（大文字小文字だけが違う場合は正しい表記を添える） */
+function describeUnsupportedCode(code: string): string {
+    const canonical = toCanonicalLanguageCode(code);
+    return canonical ? `${JSON.stringify(code)} (use ${JSON.stringify(canonical)})` : JSON.stringify(code);
+}
+
+/**
+ * 1フレームを解析し、結果を検証する
+ * JSONとして解析できない・一部の言語のタイトルがない場合は、不備を伝える指示を加えて再試行する
+ * 再試行で得られた言語は前回の結果に追加する
+ *
+ * @throws AnalysisResponseError（再試行しても要求した言語がそろわない場合など）
+ */
+async function analyzeWithCorrection(provider: AnalysisProvider, request: AnalyzeRequest): Promise<GeminiStepResponse> {
+    let best: GeminiStepResponse | undefined;
+    let lastError: AnalysisResponseError | undefined;
+
+    for (let attempt = 0; attempt <= MAX_CORRECTION_RETRIES; attempt++) {
+        const missing = best ? request.languages.filter(lang => !best!.translations[lang]) : [];
+        const correction = lastError ? buildCorrectionNote(missing) : undefined;
+        try {
+            const raw = await withProviderRetry(() => provider.analyzeStep({ ...request, correction }));
+            const { response } = validateStepResponse(raw, request.languages);
+            best = {
+                translations: { ...best?.translations, ...response.translations },
+                box_2d: response.box_2d ?? best?.box_2d,
+                action: response.action ?? best?.action,
+            };
+        } catch (error) {
+            if (!(error instanceof AnalysisResponseError)) throw error;
+            lastError = error;
+            continue;
+        }
+
+        const stillMissing = request.languages.filter(lang => !best!.translations[lang]);
+        if (stillMissing.length === 0) return best;
+        lastError = new AnalysisResponseError(
+            'missing_languages',
+            `Model output is missing language(s): ${stillMissing.join(', ')}`,
+            stillMissing
+        );
+        console.warn(`Analysis attempt ${attempt + 1}: ${lastError.message}`);
+    }
+    throw lastError!;
+}
+
+/**
+ * 例外をHTTPアダプター向けのエラー結果に変換する
+ * モデルの出力の不備は 502、サーバー側の再試行で回復しなかった一時的なエラーは 429 / 503（Retry-After 付き）、
+ * それ以外は 500 とし、いずれもエラーコードを付ける
+ */
+function toErrorResult(error: unknown, message: string): AnalysisResult {
+    if (error instanceof AnalysisConfigError) {
+        console.error(error.message);
+        return { status: 500, body: { error: 'Server configuration error', code: 'config_error' } satisfies AnalysisErrorBody };
+    }
+    if (error instanceof AnalysisResponseError) {
+        console.error('Invalid model response:', error.message);
+        return {
+            status: 502,
+            body: {
+                error: message,
+                code: error.code,
+                details: error.message,
+                ...(error.missingLanguages ? { missingLanguages: error.missingLanguages } : {})
+            } satisfies AnalysisErrorBody
+        };
+    }
+    console.error('API Error:', error);
+    if (isTransientProviderError(error)) {
+        const retryAfterMs = getProviderRetryAfter(error);
+        const rateLimited = getErrorStatus(error) === 429;
+        return {
+            status: rateLimited ? 429 : 503,
+            headers: retryAfterMs !== undefined ? { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) } : undefined,
+            body: {
+                error: message,
+                code: rateLimited ? 'rate_limited' : 'provider_error',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            } satisfies AnalysisErrorBody
+        };
+    }
+    return {
+        status: 500,
+        body: {
+            error: message,
+            code: 'provider_error',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        } satisfies AnalysisErrorBody
+    };
+}
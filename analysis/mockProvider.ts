@@ -0,0 +1,171 @@
+import type { GeminiStepAction, GeminiStepResponse, ManualOverview, ManualRefinement, ManualTranslation, RefinedStep, Translation } from '../types.js';
+import type { AnalysisProvider, AnalyzeRequest, RefineRequest, TranslateRequest } from './types.js';
+
+/**
+ * オフライン開発用のモック解析プロバイダー
+ * APIキーやネットワークなしで 動画→手順書 の一連の流れを確認できるよう、
+ * 入力から決定的に選んだ定型レスポンスを返す
+ */
+
+/** 定型ステップ（言語コード → 翻訳） */
+const CANNED_STEPS: Record<string, Translation>[] = [
+    {
+        ja: { title: "アプリケーションを起動する", description: "デスクトップのアイコンをダブルクリックしてアプリケーションを起動します。" },
+        en: { title: "Launch the application", description: "Double-click the desktop icon to launch the application." },
+        zh: { title: "启动应用程序", description: "双击桌面图标启动应用程序。" },
+        ko: { title: "애플리케이션 실행", description: "바탕 화면 아이콘을 더블 클릭하여 애플리케이션을 실행합니다." }
+    },
+    {
+        ja: { title: "メニューを開く", description: "画面上部の「ファイル」メニューをクリックします。" },
+        en: { title: "Open the menu", description: "Click the \"File\" menu at the top of the screen." },
+        zh: { title: "打开菜单", description: "点击屏幕顶部的“文件”菜单。" },
+        ko: { title: "메뉴 열기", description: "화면 상단의 \"파일\" 메뉴를 클릭합니다." }
+    },
+    {
+        ja: { title: "項目を入力する", description: "入力欄に必要な情報を入力します。" },
+        en: { title: "Enter the details", description: "Type the required information into the input field." },
+        zh: { title: "输入信息", description: "在输入框中输入所需的信息。" },
+        ko: { title: "항목 입력", description: "입력란에 필요한 정보를 입력합니다." }
+    },
+    {
+        ja: { title: "設定を保存する", description: "「保存」ボタンをクリックして変更を確定します。" },
+        en: { title: "Save the settings", description: "Click the \"Save\" button to apply your changes." },
+        zh: { title: "保存设置", description: "点击“保存”按钮以确认更改。" },
+        ko: { title: "설정 저장", description: "\"저장\" 버튼을 클릭하여 변경 사항을 적용합니다." }
+    },
+    {
+        ja: { title: "結果を確認する", description: "完了メッセージが表示されたことを確認します。" },
+        en: { title: "Check the result", description: "Confirm that the completion message is displayed." },
+        zh: { title: "确认结果", description: "确认显示了完成消息。" },
+        ko: { title: "결과 확인", description: "완료 메시지가 표시되는지 확인합니다." }
+    },
+    {
+        ja: { title: "ファイルを追加する", description: "ファイルをアップロード欄までドラッグして追加します。" },
+        en: { title: "Add a file", description: "Drag the file onto the upload area to add it." },
+        zh: { title: "添加文件", description: "将文件拖到上传区域以添加。" },
+        ko: { title: "파일 추가", description: "파일을 업로드 영역으로 드래그하여 추가합니다." }
+    },
+    {
+        ja: { title: "ショートカットで保存する", description: "Ctrl + S キーを押して内容を保存します。" },
+        en: { title: "Save with a shortcut", description: "Press Ctrl + S to save your work." },
+        zh: { title: "使用快捷键保存", description: "按 Ctrl + S 保存内容。" },
+        ko: { title: "단축키로 저장", description: "Ctrl + S 키를 눌러 내용을 저장합니다." }
+    }
+];
+
+/** 定型ステップに対応する操作（座標は [ymin, xmin, ymax, xmax]、0-1000） */
+const CANNED_ACTIONS: GeminiStepAction[] = [
+    { type: 'double_click', targets: [{ role: 'target', box_2d: [120, 80, 220, 260] }] },
+    { type: 'click', targets: [{ role: 'target', box_2d: [20, 10, 70, 120] }] },
+    { type: 'type', targets: [{ role: 'target', box_2d: [400, 300, 460, 700] }], text: 'sample@example.com' },
+    { type: 'click', targets: [{ role: 'target', box_2d: [820, 760, 900, 940] }] },
+    { type: 'wait', targets: [{ role: 'target', box_2d: [350, 250, 650, 750] }] },
+    {
+        type: 'drag',
+        targets: [
+            { role: 'source', box_2d: [200, 60, 300, 220] },
+            { role: 'destination', box_2d: [450, 500, 750, 900] }
+        ]
+    },
+    { type: 'shortcut', targets: [], keys: ['Ctrl', 'S'] }
+];
+
+/** 定型の手順書概要（言語コード → 概要） */
+const CANNED_OVERVIEW: Record<string, ManualOverview> = {
+    ja: { title: "アプリケーションの基本操作", summary: "アプリケーションを起動し、必要な情報を入力して保存するまでの手順を説明します。", prerequisites: ["アプリケーションがインストールされていること"] },
+    en: { title: "Basic application operations", summary: "This manual explains how to launch the application, enter the required details and save them.", prerequisites: ["The application is installed"] },
+    zh: { title: "应用程序的基本操作", summary: "本手册说明从启动应用程序到输入并保存所需信息的步骤。", prerequisites: ["已安装应用程序"] },
+    ko: { title: "애플리케이션 기본 조작", summary: "애플리케이션을 실행하고 필요한 정보를 입력하여 저장하는 절차를 설명합니다.", prerequisites: ["애플리케이션이 설치되어 있을 것"] }
+};
+
+/**
+ * 文字列から決定的なハッシュ値を計算（FNV-1a）
+ */
+function hashString(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * 定型レスポンスを返すモックプロバイダーを生成
+ */
+export const createMockProvider = (): AnalysisProvider => ({
+    name: 'mock',
+    async analyzeStep(request: AnalyzeRequest): Promise<GeminiStepResponse> {
+        const seed = hashString(`${request.contextPrompt}|${request.imageData}`);
+        const index = seed % CANNED_STEPS.length;
+        const canned = CANNED_STEPS[index];
+
+        const translations: Record<string, Translation> = {};
+        for (const lang of request.languages) {
+            // 定型文のない言語は英語文に言語コードを付けて返す
+            translations[lang] = canned[lang] ?? {
+                title: `[${lang}] ${canned.en.title}`,
+                description: `[${lang}] ${canned.en.description}`
+            };
+        }
+
+        // 奇数シードでは操作対象なし（UI要素なしのステップを再現）
+        const action = seed % 2 === 0
+            ? CANNED_ACTIONS[index]
+            : { ...CANNED_ACTIONS[index], targets: [] };
+
+        return { translations, box_2d: action.targets?.[0]?.box_2d, action };
+    },
+
+    async refineManual(request: RefineRequest): Promise<ManualRefinement> {
+        const [primary] = request.languages;
+        const steps: RefinedStep[] = [];
+        let lastKept: RefineRequest['steps'][number] | undefined;
+
+        // 直前に残したステップと同じタイトルは統合し、対象のない待機は削除する
+        for (const step of request.steps) {
+            const title = step.translations[primary]?.title;
+            if (lastKept && title && title === lastKept.translations[primary]?.title) {
+                steps.push({ id: step.id, decision: 'merge', mergeInto: lastKept.id, reason: '直前のステップと同じ内容' });
+            } else if (step.action?.type === 'wait' && step.action.targets.length === 0) {
+                steps.push({ id: step.id, decision: 'drop', reason: '操作を伴わない画面の確認' });
+            } else {
+                steps.push({ id: step.id, decision: 'keep' });
+                lastKept = step;
+            }
+        }
+
+        const overview: Record<string, ManualOverview> = {};
+        for (const lang of request.languages) {
+            overview[lang] = CANNED_OVERVIEW[lang] ?? {
+                title: `[${lang}] ${CANNED_OVERVIEW.en.title}`,
+                summary: `[${lang}] ${CANNED_OVERVIEW.en.summary}`,
+                prerequisites: CANNED_OVERVIEW.en.prerequisites.map(p => `[${lang}] ${p}`)
+            };
+        }
+
+        return { overview, steps };
+    },
+
+    async translateManual(request: TranslateRequest): Promise<ManualTranslation> {
+        // 翻訳元の文に言語コードを付けて返す
+        const tag = (lang: string, text: string) => `[${lang}] ${text}`;
+        const steps = request.steps.map(step => ({
+            id: step.id,
+            translations: Object.fromEntries(request.targetLanguages.map(lang => [lang, {
+                title: tag(lang, step.title),
+                description: tag(lang, step.description)
+            }]))
+        }));
+
+        const { overview } = request;
+        return {
+            steps,
+            overview: overview && Object.fromEntries(request.targetLanguages.map(lang => [lang, {
+                title: tag(lang, overview.title),
+                summary: tag(lang, overview.summary),
+                prerequisites: overview.prerequisites.map(p => tag(lang, p))
+            }]))
+        };
+    }
+});
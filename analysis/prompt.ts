@@ -0,0 +1,150 @@
+import type { ActionType, ScrollDirection, TargetRole, Terminology } from '../types.js';
+import type { AnalyzeRequest, RefineRequest, TranslateRequest } from './types.js';
+import { getLanguage } from '../languages.js';
+
+/**
+ * 言語コードのリストをプロンプト用の表示名リストに変換（例: "Japanese (日本語, ja)"）
+ */
+export const describeLanguages = (languages: string[]): string =>
+    languages.map(code => {
+        const { name, nativeLabel } = getLanguage(code);
+        return name === nativeLabel ? `${name} (${code})` : `${name} (${nativeLabel}, ${code})`;
+    }).join(", ");
+
+/** 解析で判定する操作の種類 */
+export const ACTION_TYPES: ActionType[] = ['click', 'double_click', 'right_click', 'type', 'drag', 'scroll', 'shortcut', 'wait'];
+
+/** 操作対象の役割 */
+export const TARGET_ROLES: TargetRole[] = ['target', 'source', 'destination'];
+
+/** スクロール方向 */
+export const SCROLL_DIRECTIONS: ScrollDirection[] = ['up', 'down', 'left', 'right'];
+
+/** プロンプトに含めるナレーションの最大文字数 */
+export const MAX_TRANSCRIPT_LENGTH = 2000;
+
+/**
+ * 用語集とスタイルガイドをプロンプト用の指示に変換する（対象の言語に関係する内容がなければ空文字）
+ * 用語集は対象の言語の訳語を1行にまとめる（例: en: "Save" / ja: "保存"（使用禁止: "セーブ"））
+ */
+export const describeTerminology = (terminology: Terminology | undefined, languages: string[]): string => {
+    if (!terminology) return '';
+
+    const glossaryLines = terminology.glossary.flatMap(entry => {
+        const terms = languages.filter(lang => entry.terms[lang]);
+        if (terms.length === 0) return [];
+        const forbidden = languages.flatMap(lang => (entry.forbidden?.[lang] ?? []).map(f => `"${f}"`));
+        return [`            - ${terms.map(lang => `${lang}: "${entry.terms[lang]}"`).join(' / ')}`
+            + (forbidden.length > 0 ? `（使用禁止: ${forbidden.join(', ')}）` : '')
+            + (entry.note ? ` ※${entry.note}` : '')];
+    });
+    const styleLines = languages
+        .filter(lang => terminology.styleGuide[lang])
+        .map(lang => `            - ${describeLanguages([lang])}: ${terminology.styleGuide[lang].replace(/\s*\n\s*/g, ' ')}`);
+
+    return [
+        ...(glossaryLines.length > 0 ? [
+            '            用語集（UI要素・機能名はここにある訳語を必ず使い、「使用禁止」の表記は使わないでください）:',
+            ...glossaryLines,
+        ] : []),
+        ...(styleLines.length > 0 ? [
+            '            文体の規則（各言語のタイトルと説明はこの規則に従ってください）:',
+            ...styleLines,
+        ] : []),
+    ].join('\n');
+};
+
+/**
+ * ステップ解析用のプロンプトを組み立てる
+ */
+export const buildStepPrompt = ({ contextPrompt, languages, previousStep, transcript, terminology, correction }: AnalyzeRequest): string => `
+            これはソフトウェアの操作手順動画の1フレームです。
+            この画像を分析し、現在の操作ステップを抽出してください。
+            動画の文脈: ${contextPrompt}
+${previousStep ? `
+            前のステップのタイトル: "${previousStep.title}"
+            前のステップの説明: "${previousStep.description}"
+            このステップでは、前のステップからどのような変化が起きたかに注目して、新しい操作内容を記述してください。
+` : ''}${transcript ? `
+            このステップに至るまでに話者が話した内容（字幕・文字起こし）:
+            「${transcript.slice(0, MAX_TRANSCRIPT_LENGTH)}」
+            画面の内容と矛盾しない範囲で、話者の説明に沿った用語・意図でタイトルと説明を記述してください。
+` : ''}
+            以下の言語ですべて翻訳を提供してください: ${describeLanguages(languages)}
+${describeTerminology(terminology, languages)}
+
+            出力はJSON形式で行い、各言語コードをキーにしてください。
+            "box_2d" は操作対象のUI要素（ボタンや入力欄など）がある場合のみ、[ymin, xmin, ymax, xmax] (0-1000スケール) で含めてください。
+            "action" にはこのステップで行われた操作を含めてください。
+            - "type": ${ACTION_TYPES.join(" / ")} のいずれか（キー入力の組み合わせは shortcut、待機・確認のみは wait）
+            - "targets": 操作対象の領域の配列。各要素は "role" と "box_2d"。role は通常 "target"、ドラッグではドラッグ元を "source"、ドロップ先を "destination" とする
+            - "text": type の場合に入力した文字列（画面から読み取れる範囲で正確に）
+            - "keys": shortcut の場合に押したキー（例: ["Ctrl", "S"]）
+            - "direction": scroll の場合の方向（${SCROLL_DIRECTIONS.join(" / ")}）
+            "box_2d" を含める場合は "targets" の先頭と同じ領域にしてください。
+${correction ? `
+            重要: ${correction}
+` : ''}            `;
+
+/**
+ * 再試行時に前回の出力の不備を伝える補足指示を組み立てる
+ *
+ * @param missingLanguages - タイトルが得られなかった言語（JSONとして解析できなかった場合は空）
+ */
+export const buildCorrectionNote = (missingLanguages: string[]): string =>
+    missingLanguages.length > 0
+        ? `前回の出力には次の言語のタイトルと説明がありませんでした: ${describeLanguages(missingLanguages)}。すべての言語について、空でないタイトルと説明を含めてください。`
+        : '前回の出力はJSONとして解析できませんでした。指定したスキーマに従ったJSONオブジェクトのみを出力してください。';
+
+/**
+ * 手順書全体の見直し用のプロンプトを組み立てる
+ * ステップは解析結果のテキストと操作のみを JSON で渡す（画像は含めない）
+ */
+export const buildRefinePrompt = ({ contextPrompt, languages, steps, terminology }: RefineRequest): string => `
+            以下は、ソフトウェアの操作手順動画から1フレームずつ個別に解析して作成した手順書のステップ一覧です。
+            動画の文脈: ${contextPrompt}
+            各フレームは直前のステップだけを参考に解析されているため、重複したステップや、操作を伴わないステップが含まれることがあります。
+            全体の流れを見て、次の方針で手順書を整理してください。
+
+            - 直前・直後のステップと同じ内容（例: 同じダイアログが表示されている）のステップは "merge" とし、"mergeInto" に統合先のステップの "id" を指定する
+            - 画面の確認だけで意味のある操作がないステップは "drop" とする（ただし結果の確認が手順として重要な場合は残す）
+            - それ以外は "keep" とする
+            - "merge" / "drop" には "reason" に短い理由を日本語で記載する
+            - "keep" のステップは、手順書全体で用語と文体（命令形・敬体など）がそろうよう "translations" にタイトルと説明を書き直す。統合されたステップの内容は統合先の説明に含める
+            - タイトルに番号は含めない（番号は表示時に付与する）
+            - すべてのステップの "id" をそのまま返し、順序は変更しない
+
+            あわせて "overview" に、手順書全体のタイトル（"title"）、この手順の目的の要約（"summary"）、前提条件（"prerequisites": 必要な権限・事前の準備などの配列。なければ空配列）を記載してください。
+            以下の言語ですべて提供してください: ${describeLanguages(languages)}
+${describeTerminology(terminology, languages)}
+
+            ステップ一覧（JSON）:
+            ${JSON.stringify(steps.map(({ id, timestamp, translations, action }) => ({ id, timestamp, action: action?.type, translations })))}
+
+            出力はJSON形式で行い、言語ごとの項目は各言語コードをキーにしてください。
+            `;
+
+/**
+ * 既存の手順書の翻訳用のプロンプトを組み立てる
+ */
+export const buildTranslatePrompt = ({ sourceLanguage, targetLanguages, steps, overview, terminology }: TranslateRequest): string => `
+            以下は、ソフトウェアの操作手順書です（${describeLanguages([sourceLanguage])}）。
+            この手順書全体を次の言語に翻訳してください: ${describeLanguages(targetLanguages)}
+
+            - 手順書全体で用語と文体をそろえる（同じUI要素・操作は常に同じ訳語にする）
+            - ボタン名やメニュー名など画面上の表記は、その言語版のソフトウェアで一般的な表記がなければ原文のまま残す
+            - 内容を追加・省略せず、各ステップの "id" をそのまま返す
+${overview ? `            - "overview" には手順書のタイトル・目的・前提条件の翻訳を記載する
+` : ''}${describeTerminology(terminology, [sourceLanguage, ...targetLanguages])}
+
+            手順書（JSON）:
+            ${JSON.stringify({ steps, overview })}
+
+            出力はJSON形式で行い、言語ごとの項目は各言語コードをキーにしてください。
+            `;
+
+/**
+ * data URL 形式の画像から Base64 部分のみを取り出す
+ */
+export const stripDataUrlPrefix = (imageData: string): string =>
+    imageData.includes(',') ? imageData.split(',')[1] : imageData;
@@ -0,0 +1,95 @@
+import type { ManualOverview, ManualRefinement, RefinedStep, Translation } from '../types.js';
+import type { RefineRequest } from './types.js';
+
+/**
+ * 手順書全体の見直し結果の検証
+ * モデルの出力は指示どおりとは限らないため、入力のステップと突き合わせて
+ * クライアントがそのまま適用できる形に整える
+ */
+
+/** 統合先をたどる最大回数（循環参照の打ち切り用） */
+const MAX_MERGE_DEPTH = 10;
+
+function isTranslation(value: unknown): value is Translation {
+    const t = value as Translation | undefined;
+    return !!t && typeof t.title === 'string' && typeof t.description === 'string';
+}
+
+/**
+ * 要求された言語の翻訳だけを残す（1つもなければ undefined）
+ */
+export const pickTranslations = (
+    translations: Record<string, unknown> | undefined,
+    languages: string[]
+): Record<string, Translation> | undefined => {
+    const picked = languages
+        .filter(lang => isTranslation(translations?.[lang]))
+        .map(lang => [lang, translations![lang] as Translation] as const);
+    return picked.length > 0 ? Object.fromEntries(picked) : undefined;
+};
+
+/**
+ * 手順書の概要として不正な値を除く（タイトルがなければ undefined）
+ */
+export const pickOverview = (value: unknown): ManualOverview | undefined => {
+    const o = value as Partial<ManualOverview> | undefined;
+    if (!o || typeof o.title !== 'string') return undefined;
+    return {
+        title: o.title,
+        summary: typeof o.summary === 'string' ? o.summary : '',
+        prerequisites: Array.isArray(o.prerequisites)
+            ? o.prerequisites.filter((p): p is string => typeof p === 'string' && p.trim() !== '')
+            : [],
+    };
+};
+
+/**
+ * 見直し結果を入力のステップに合わせて正規化する
+ * - 入力にないステップIDは捨て、結果にないステップは keep とする
+ * - 統合先は最終的に残るステップまでたどり、見つからなければ keep に戻す
+ * - すべてのステップが消える結果は採用せず、すべて keep とする
+ */
+export const sanitizeRefinement = (request: RefineRequest, result: Partial<ManualRefinement>): ManualRefinement => {
+    const byId = new Map<string, Partial<RefinedStep>>();
+    for (const step of Array.isArray(result.steps) ? result.steps : []) {
+        if (step && typeof step.id === 'string') byId.set(step.id, step);
+    }
+
+    const decisionOf = (id: string) => byId.get(id)?.decision;
+    const resolveMergeTarget = (id: string): string | undefined => {
+        let target = byId.get(id)?.mergeInto;
+        for (let depth = 0; target && depth < MAX_MERGE_DEPTH; depth++) {
+            if (target === id || !request.steps.some(s => s.id === target)) return undefined;
+            const decision = decisionOf(target);
+            if (decision === 'drop') return undefined;
+            if (decision !== 'merge') return target;
+            target = byId.get(target)?.mergeInto;
+        }
+        return undefined;
+    };
+
+    let steps: RefinedStep[] = request.steps.map(({ id }) => {
+        const refined = byId.get(id);
+        const translations = pickTranslations(refined?.translations, request.languages);
+        if (refined?.decision === 'drop') {
+            return { id, decision: 'drop', reason: refined.reason };
+        }
+        if (refined?.decision === 'merge') {
+            const mergeInto = resolveMergeTarget(id);
+            if (mergeInto) return { id, decision: 'merge', mergeInto, reason: refined.reason };
+        }
+        return { id, decision: 'keep', translations };
+    });
+
+    if (!steps.some(s => s.decision === 'keep')) {
+        steps = request.steps.map(({ id }) => ({ id, decision: 'keep' }));
+    }
+
+    const overview: Record<string, ManualOverview> = {};
+    for (const lang of request.languages) {
+        const picked = pickOverview(result.overview?.[lang]);
+        if (picked) overview[lang] = picked;
+    }
+
+    return { overview, steps };
+};
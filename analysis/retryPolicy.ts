@@ -0,0 +1,63 @@
+import { type RetryPolicy, withRetry } from '../retry.js';
+
+/**
+ * サーバー側でのモデルAPI呼び出しの再試行方針
+ * 関数の実行時間に上限があるため短い待ち時間だけ再試行し、
+ * 長く待つ必要があるレート制限は Retry-After を付けてクライアントの再試行に任せる
+ */
+
+/** サーバー側の再試行の設定 */
+export const SERVER_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 8000,
+};
+
+/** 一時的なエラーとみなすHTTPステータス */
+const TRANSIENT_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+/** 一時的なエラーとみなすネットワークエラーのコード */
+const TRANSIENT_NETWORK_CODES = new Set(['ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED', 'EAI_AGAIN', 'UND_ERR_SOCKET']);
+
+/**
+ * プロバイダーのエラーからHTTPステータスを取り出す（SDK の ApiError など status を持つエラー）
+ */
+export const getErrorStatus = (error: unknown): number | undefined => {
+    const status = (error as { status?: unknown } | undefined)?.status;
+    return typeof status === 'number' ? status : undefined;
+};
+
+/**
+ * プロバイダーのエラーが指定する待ち時間（ミリ秒）
+ * Gemini API のレート制限エラーは本文の RetryInfo に "retryDelay": "20s" の形で含まれる
+ */
+export const getProviderRetryAfter = (error: unknown): number | undefined => {
+    const message = error instanceof Error ? error.message : '';
+    const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+    return match ? Math.round(Number(match[1]) * 1000) : undefined;
+};
+
+/**
+ * 再試行で回復する見込みのあるエラーかどうか
+ */
+export const isTransientProviderError = (error: unknown): boolean => {
+    const status = getErrorStatus(error);
+    if (status !== undefined) return TRANSIENT_STATUSES.has(status);
+    const networkError = error as { code?: unknown; cause?: { code?: unknown } } | undefined;
+    return TRANSIENT_NETWORK_CODES.has(String(networkError?.code ?? networkError?.cause?.code ?? ''))
+        || (error instanceof TypeError && /fetch failed/i.test(error.message));
+};
+
+/**
+ * 一時的なエラーを再試行しながらプロバイダーを呼び出す
+ * 指定された待ち時間が上限を超える場合はサーバーでは待たずに失敗させる
+ */
+export const withProviderRetry = <T>(task: () => Promise<T>): Promise<T> =>
+    withRetry(task, {
+        ...SERVER_RETRY_POLICY,
+        isRetryable: error =>
+            isTransientProviderError(error) && (getProviderRetryAfter(error) ?? 0) <= SERVER_RETRY_POLICY.maxDelayMs,
+        getRetryAfter: getProviderRetryAfter,
+        onRetry: (error, attempt, delayMs) =>
+            console.warn(`Provider call failed (attempt ${attempt}, status ${getErrorStatus(error) ?? 'n/a'}); retrying in ${delayMs}ms`),
+    });
@@ -0,0 +1,66 @@
+import type { GlossaryEntry, Terminology } from '../types.js';
+
+/**
+ * リクエストに含まれる用語集・スタイルガイドの検証
+ * クライアントから届いた値をそのままプロンプトに埋め込まないよう、形式と量を制限する
+ */
+
+/** プロンプトに含める用語集の最大項目数 */
+export const MAX_GLOSSARY_ENTRIES = 300;
+
+/** 用語・規則1件あたりの最大文字数 */
+const MAX_TERM_LENGTH = 200;
+const MAX_STYLE_GUIDE_LENGTH = 2000;
+
+function isShortString(value: unknown, maxLength: number): value is string {
+    return typeof value === 'string' && value.trim() !== '' && value.length <= maxLength;
+}
+
+/** 言語コード → 値 のオブジェクトから条件を満たす値だけを残す */
+function pickByLanguage<T>(value: unknown, pick: (v: unknown) => T | undefined): Record<string, T> {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+    const picked: Record<string, T> = {};
+    for (const [lang, v] of Object.entries(value)) {
+        const result = pick(v);
+        if (result !== undefined) picked[lang] = result;
+    }
+    return picked;
+}
+
+function sanitizeEntry(value: unknown): GlossaryEntry | undefined {
+    const entry = value as Partial<GlossaryEntry> | undefined;
+    if (!entry || typeof entry !== 'object') return undefined;
+
+    const terms = pickByLanguage(entry.terms, v => isShortString(v, MAX_TERM_LENGTH) ? v.trim() : undefined);
+    if (Object.keys(terms).length === 0) return undefined;
+
+    const forbidden = pickByLanguage(entry.forbidden, v => {
+        const list = Array.isArray(v) ? v.filter(f => isShortString(f, MAX_TERM_LENGTH)).map(f => f.trim()) : [];
+        return list.length > 0 ? list : undefined;
+    });
+    return {
+        terms,
+        ...(Object.keys(forbidden).length > 0 ? { forbidden } : {}),
+        ...(isShortString(entry.note, MAX_TERM_LENGTH) ? { note: entry.note.trim() } : {}),
+    };
+}
+
+/**
+ * 用語集・スタイルガイドを正規化する（有効な内容がなければ undefined）
+ * - 訳語のない項目・不正な値は捨て、項目数は MAX_GLOSSARY_ENTRIES までとする
+ */
+export const sanitizeTerminology = (value: unknown): Terminology | undefined => {
+    const terminology = value as Partial<Terminology> | undefined;
+    if (!terminology || typeof terminology !== 'object') return undefined;
+
+    const glossary = (Array.isArray(terminology.glossary) ? terminology.glossary : [])
+        .map(sanitizeEntry)
+        .filter((entry): entry is GlossaryEntry => !!entry)
+        .slice(0, MAX_GLOSSARY_ENTRIES);
+    const styleGuide = pickByLanguage(terminology.styleGuide, v =>
+        isShortString(v, MAX_STYLE_GUIDE_LENGTH) ? v.trim() : undefined
+    );
+
+    if (glossary.length === 0 && Object.keys(styleGuide).length === 0) return undefined;
+    return { glossary, styleGuide };
+};
@@ -0,0 +1,36 @@
+import type { ManualOverview, ManualTranslation } from '../types.js';
+import type { TranslateRequest } from './types.js';
+import { pickOverview, pickTranslations } from './refine.js';
+
+/**
+ * 手順書の翻訳結果の検証
+ * 入力のステップと追加する言語に合わせ、クライアントがそのままマージできる形に整える
+ */
+
+/**
+ * 翻訳結果を正規化する
+ * - 入力にないステップID・要求していない言語は捨てる
+ * - 翻訳が返らなかったステップは結果に含めない（クライアント側では未翻訳のまま残る）
+ */
+export const sanitizeTranslation = (request: TranslateRequest, result: Partial<ManualTranslation>): ManualTranslation => {
+    const ids = new Set(request.steps.map(step => step.id));
+    const steps: ManualTranslation['steps'] = [];
+    const seen = new Set<string>();
+
+    for (const step of Array.isArray(result.steps) ? result.steps : []) {
+        if (!step || !ids.has(step.id) || seen.has(step.id)) continue;
+        const translations = pickTranslations(step.translations, request.targetLanguages);
+        if (!translations) continue;
+        seen.add(step.id);
+        steps.push({ id: step.id, translations });
+    }
+
+    if (!request.overview) return { steps };
+
+    const overview: Record<string, ManualOverview> = {};
+    for (const lang of request.targetLanguages) {
+        const picked = pickOverview(result.overview?.[lang]);
+        if (picked) overview[lang] = picked;
+    }
+    return { steps, overview };
+};
@@ -0,0 +1,78 @@
+import type { GeminiStepResponse, ManualOverview, ManualRefinement, ManualTranslation, StepAction, Terminology, Translation } from '../types.js';
+
+/**
+ * ステップ解析リクエスト
+ * Vercel Function / ローカル開発サーバーの両方が受け付けるリクエストボディ
+ */
+export interface AnalyzeRequest {
+    imageData: string;      // Base64エンコードされた画像データ
+    contextPrompt: string;  // 文脈情報
+    languages: string[];    // 出力言語リスト
+    previousStep?: {        // 前のステップの情報（文脈強化用）
+        title: string;
+        description: string;
+    };
+    transcript?: string;    // 前のステップからこのステップまでに話されたナレーション（字幕・文字起こし）
+    terminology?: Terminology;  // 用語集とスタイルガイド
+    correction?: string;    // 前回の出力の不備を伝える補足指示（再試行時にサーバー内部で設定）
+}
+
+/** 全体の見直しに渡すステップ（画像は含めず、解析済みのテキストと操作のみ） */
+export interface RefineStepInput {
+    id: string;
+    timestamp: number;
+    translations: Record<string, Translation>;
+    action?: StepAction;
+}
+
+/**
+ * 手順書全体の見直しリクエスト
+ * 各フレームを個別に解析した結果を、全体の流れを見て整理する
+ */
+export interface RefineRequest {
+    contextPrompt: string;  // 文脈情報
+    languages: string[];    // 出力言語リスト
+    steps: RefineStepInput[];
+    terminology?: Terminology;  // 用語集とスタイルガイド
+}
+
+/** 翻訳するステップ（翻訳元の言語のタイトルと説明） */
+export interface TranslateStepInput {
+    id: string;
+    title: string;
+    description: string;
+}
+
+/**
+ * 既存の手順書のテキスト翻訳リクエスト（画像は送らない）
+ * 手順書全体を1回で翻訳し、用語と文体をそろえる
+ */
+export interface TranslateRequest {
+    sourceLanguage: string;     // 翻訳元の言語
+    targetLanguages: string[];  // 追加する言語
+    steps: TranslateStepInput[];
+    overview?: ManualOverview;  // 翻訳元の言語の手順書概要
+    terminology?: Terminology;  // 用語集とスタイルガイド
+}
+
+/**
+ * 解析プロバイダーのインターフェース
+ * Gemini などの実装を差し替え可能にする
+ */
+export interface AnalysisProvider {
+    /** プロバイダー名（ログ出力用） */
+    readonly name: string;
+    /** 1フレームを解析して多言語のステップ情報を返す */
+    analyzeStep(request: AnalyzeRequest): Promise<GeminiStepResponse>;
+    /** 全ステップの解析結果を見直し、重複・不要なステップの整理と全体の概要を返す */
+    refineManual(request: RefineRequest): Promise<ManualRefinement>;
+    /** 手順書のテキストを別の言語に翻訳する */
+    translateManual(request: TranslateRequest): Promise<ManualTranslation>;
+}
+
+/** HTTPアダプターへ返す結果（ステータスコードとJSONボディ） */
+export interface AnalysisResult {
+    status: number;
+    body: unknown;
+    headers?: Record<string, string>;  // Retry-After など
+}
@@ -0,0 +1,138 @@
+import type { AnalysisErrorCode, GeminiStepAction, GeminiStepResponse, Translation } from '../types.js';
+import { ACTION_TYPES, SCROLL_DIRECTIONS, TARGET_ROLES } from './prompt.js';
+
+/**
+ * モデル出力の検証と補正
+ * レスポンススキーマを指定してもモデルの出力は保証されないため、
+ * クライアントに返す前に形式を確認し、座標などの値を範囲内に収める
+ */
+
+/** 座標の最大値（0-1000 スケール） */
+const COORDINATE_MAX = 1000;
+
+type Box = [number, number, number, number];
+
+/** モデルの出力が期待する形式でない（エラーコード付き） */
+export class AnalysisResponseError extends Error {
+    constructor(
+        readonly code: AnalysisErrorCode,
+        message: string,
+        /** missing_languages の場合に得られなかった言語 */
+        readonly missingLanguages?: string[]
+    ) {
+        super(message);
+        this.name = 'AnalysisResponseError';
+    }
+}
+
+/** ステップ解析結果の検証結果 */
+export interface StepValidation {
+    /** 正規化した解析結果（タイトルのない言語は含まない） */
+    response: GeminiStepResponse;
+    /** タイトルが得られなかった言語 */
+    missingLanguages: string[];
+}
+
+/**
+ * モデルの出力テキストをJSONオブジェクトとして解析する
+ * コードブロック（```json ... ```）で囲まれた出力にも対応する
+ *
+ * @throws AnalysisResponseError（invalid_json）
+ */
+export const parseModelJson = <T>(text: string | undefined): T => {
+    const trimmed = (text ?? '').trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/, '$1');
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(trimmed);
+    } catch {
+        throw new AnalysisResponseError('invalid_json', 'Model output is not valid JSON');
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new AnalysisResponseError('invalid_json', 'Model output is not a JSON object');
+    }
+    return parsed as T;
+};
+
+function clampCoordinate(value: number): number {
+    return Math.min(COORDINATE_MAX, Math.max(0, value));
+}
+
+/**
+ * [ymin, xmin, ymax, xmax] の領域を正規化する
+ * - 数値文字列は数値に変換し、0-1000 の範囲に収める
+ * - 最小値と最大値が逆転していれば入れ替える
+ * - 4要素でない・面積がない領域は undefined
+ */
+export const normalizeBox = (value: unknown): Box | undefined => {
+    if (!Array.isArray(value) || value.length !== 4) return undefined;
+    const numbers = value.map(v => typeof v === 'string' ? Number(v) : v);
+    if (!numbers.every((v): v is number => typeof v === 'number' && Number.isFinite(v))) return undefined;
+
+    const [y1, x1, y2, x2] = numbers.map(clampCoordinate);
+    const box: Box = [Math.min(y1, y2), Math.min(x1, x2), Math.max(y1, y2), Math.max(x1, x2)];
+    return box[0] === box[2] || box[1] === box[3] ? undefined : box;
+};
+
+/**
+ * 操作の推定結果を正規化する（種類が不明なら undefined）
+ * 不正な対象・値は捨てる
+ */
+function normalizeAction(value: unknown): GeminiStepAction | undefined {
+    const action = value as Partial<GeminiStepAction> | undefined;
+    if (!action || typeof action !== 'object' || !ACTION_TYPES.includes(action.type!)) return undefined;
+
+    const targets = (Array.isArray(action.targets) ? action.targets : []).flatMap(target => {
+        const box_2d = normalizeBox(target?.box_2d);
+        if (!box_2d) return [];
+        return [{ role: TARGET_ROLES.includes(target.role) ? target.role : 'target' as const, box_2d }];
+    });
+    const keys = Array.isArray(action.keys)
+        ? action.keys.filter((k): k is string => typeof k === 'string' && k.trim() !== '')
+        : [];
+
+    return {
+        type: action.type!,
+        targets,
+        ...(typeof action.text === 'string' && action.text !== '' ? { text: action.text } : {}),
+        ...(keys.length > 0 ? { keys } : {}),
+        ...(action.type === 'scroll' && SCROLL_DIRECTIONS.includes(action.direction!) ? { direction: action.direction } : {}),
+    };
+}
+
+/**
+ * ステップ解析の結果を検証・正規化する
+ * - 要求した言語のうち、空でないタイトルがあるものだけを残す（説明がなければ空文字）
+ * - 領域は normalizeBox で補正し、不正なら省く
+ *
+ * @throws AnalysisResponseError（invalid_response: オブジェクトでない場合）
+ */
+export const validateStepResponse = (raw: unknown, languages: string[]): StepValidation => {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new AnalysisResponseError('invalid_response', 'Model output is not an object');
+    }
+    const result = raw as Partial<Record<keyof GeminiStepResponse, unknown>>;
+    const rawTranslations = (result.translations ?? {}) as Record<string, Partial<Translation> | undefined>;
+
+    const translations: Record<string, Translation> = {};
+    const missingLanguages: string[] = [];
+    for (const lang of languages) {
+        const t = rawTranslations[lang];
+        const title = typeof t?.title === 'string' ? t.title.trim() : '';
+        if (!title) {
+            missingLanguages.push(lang);
+            continue;
+        }
+        translations[lang] = { title, description: typeof t?.description === 'string' ? t.description.trim() : '' };
+    }
+
+    const box_2d = normalizeBox(result.box_2d);
+    const action = normalizeAction(result.action);
+    return {
+        response: {
+            translations,
+            ...(box_2d ? { box_2d } : {}),
+            ...(action ? { action } : {}),
+        },
+        missingLanguages,
+    };
+};
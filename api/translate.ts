@@ -0,0 +1,33 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { handleTranslateRequest } from '../analysis/index.js';
+
+/**
+ * 既存の手順書のテキスト翻訳（画像の再解析なしで言語を追加）を行うサーバーサイドAPI
+ * 解析処理は共通モジュール (analysis/) に委譲する
+ * APIキーはサーバー側の環境変数に保持され、クライアントには露出しない
+ */
+export default async function handler(
+    req: VercelRequest,
+    res: VercelResponse
+) {
+    // CORSヘッダーの設定
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+    // OPTIONSリクエスト（プリフライト）への対応
+    if (req.method === 'OPTIONS') {
+        return res.status(200).end();
+    }
+
+    // POSTメソッドのみ許可
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { status, body, headers } = await handleTranslateRequest(req.body);
+    for (const [name, value] of Object.entries(headers ?? {})) {
+        res.setHeader(name, value);
+    }
+    return res.status(status).json(body);
+}
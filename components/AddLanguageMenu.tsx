@@ -0,0 +1,96 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown, Languages, Loader2 } from 'lucide-react';
+import { LANGUAGES, getLanguage } from '../languages';
+
+interface AddLanguageMenuProps {
+  /** 手順書にすでにある言語（候補から除く） */
+  existingLanguages: string[];
+  /** 翻訳元の言語 */
+  sourceLanguage: string;
+  onTranslate: (languages: string[]) => void;
+  /** 翻訳中（ボタンを無効化してスピナーを表示） */
+  isTranslating?: boolean;
+}
+
+/**
+ * 既存の手順書に言語を追加するメニュー
+ * 画像は再解析せず、翻訳元の言語のテキストから翻訳する
+ */
+const AddLanguageMenu: React.FC<AddLanguageMenuProps> = ({ existingLanguages, sourceLanguage, onTranslate, isTranslating }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [checked, setChecked] = useState<string[]>([]);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const candidates = LANGUAGES.filter(lang => !existingLanguages.includes(lang.code));
+
+  // メニューの外側をクリックしたら閉じる
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    window.addEventListener('pointerdown', handlePointerDown);
+    return () => window.removeEventListener('pointerdown', handlePointerDown);
+  }, [isOpen]);
+
+  const toggle = (code: string) => {
+    setChecked(prev => prev.includes(code) ? prev.filter(c => c !== code) : [...prev, code]);
+  };
+
+  const submit = () => {
+    // 開いている間に追加済みになった言語は除く
+    const languages = checked.filter(code => !existingLanguages.includes(code));
+    if (languages.length === 0) return;
+    setIsOpen(false);
+    setChecked([]);
+    onTranslate(languages);
+  };
+
+  if (candidates.length === 0) return null;
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={isTranslating}
+        className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-bold bg-white text-indigo-600 border border-indigo-200 hover:bg-indigo-50 transition-colors disabled:opacity-60"
+      >
+        {isTranslating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Languages className="w-4 h-4" />}
+        {isTranslating ? '翻訳中...' : '言語を追加'}
+        <ChevronDown className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 mt-2 w-72 bg-white rounded-xl border border-slate-200 shadow-xl py-2 z-30">
+          <p className="px-4 pb-2 text-[10px] text-slate-400">
+            {getLanguage(sourceLanguage).nativeLabel} の文面から翻訳します（画像は再解析しません）
+          </p>
+          <div className="max-h-64 overflow-y-auto">
+            {candidates.map(lang => (
+              <label key={lang.code} className="flex items-center gap-2 px-4 py-1.5 text-sm text-slate-700 hover:bg-slate-50 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={checked.includes(lang.code)}
+                  onChange={() => toggle(lang.code)}
+                  className="accent-indigo-600"
+                />
+                <span lang={lang.code} dir={lang.dir}>{lang.nativeLabel}</span>
+              </label>
+            ))}
+          </div>
+          <div className="mt-2 pt-2 px-4 border-t border-slate-100">
+            <button
+              onClick={submit}
+              disabled={checked.length === 0}
+              className="w-full px-4 py-2 rounded-lg bg-indigo-600 text-white text-sm font-bold hover:bg-indigo-700 transition-colors disabled:opacity-40"
+            >
+              翻訳して追加
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AddLanguageMenu;
@@ -0,0 +1,301 @@
+import React, { useRef, useState } from 'react';
+import { ArrowUpRight, Circle, EyeOff, Hash, Keyboard, MousePointer2, Square, Trash2, Type } from 'lucide-react';
+import { Annotation, AnnotationType } from '../types';
+import { ANNOTATION_COLOR, createAnnotation, orderAnnotationBox } from '../utils/annotations';
+
+type Tool = 'select' | AnnotationType;
+
+interface AnnotationEditorProps {
+  annotations: Annotation[];
+  /** 操作（ドラッグ1回・削除など）ごとに確定したアノテーション一覧を通知 */
+  onChange: (annotations: Annotation[]) => void;
+  /** 編集対象の画像（canvas） */
+  children: React.ReactNode;
+}
+
+/** ドラッグ中の操作 */
+interface DragState {
+  mode: 'move' | 'resize' | 'create';
+  id: string;
+  /** resize 時のハンドル番号（矩形: 0=左上,1=右上,2=左下,3=右下 / 矢印: 0=始点,1=終点） */
+  handle?: number;
+  start: { x: number; y: number };
+  original: Annotation;
+}
+
+const TOOLS: { id: Tool; label: string; icon: React.ReactNode }[] = [
+  { id: 'select', label: '選択・移動', icon: <MousePointer2 className="w-4 h-4" /> },
+  { id: 'rect', label: '枠', icon: <Square className="w-4 h-4" /> },
+  { id: 'arrow', label: '矢印', icon: <ArrowUpRight className="w-4 h-4" /> },
+  { id: 'badge', label: '番号バッジ', icon: <Hash className="w-4 h-4" /> },
+  { id: 'ellipse', label: '楕円', icon: <Circle className="w-4 h-4" /> },
+  { id: 'text', label: 'テキスト', icon: <Type className="w-4 h-4" /> },
+  { id: 'keys', label: 'キー操作', icon: <Keyboard className="w-4 h-4" /> },
+  { id: 'blur', label: 'ぼかし（秘匿）', icon: <EyeOff className="w-4 h-4" /> },
+];
+
+const COLORS = [ANNOTATION_COLOR, '#f59e0b', '#10b981', '#3b82f6'];
+
+/** クリックで配置する図形の既定サイズ（0-1000） */
+const BADGE_SIZE = 40;
+const TEXT_BOX = { width: 220, height: 50 };
+const KEYS_BOX = { width: 200, height: 60 };
+
+/** ドラッグで作成した図形がこれより小さければ作成しない（誤クリック対策） */
+const MIN_SHAPE_SIZE = 5;
+
+/** ラベルを持つ図形 */
+const LABELED_TYPES: AnnotationType[] = ['rect', 'badge', 'text', 'keys'];
+
+/**
+ * ステップ画像のアノテーションエディター
+ * 枠・矢印・番号バッジ・楕円・テキスト・キー操作・ぼかしの追加と、移動・リサイズ・削除を行う
+ */
+const AnnotationEditor: React.FC<AnnotationEditorProps> = ({ annotations, onChange, children }) => {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const [tool, setTool] = useState<Tool>('select');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [draft, setDraft] = useState<Annotation[] | null>(null);
+
+  const shown = draft ?? annotations;
+  const selected = shown.find(a => a.id === selectedId) ?? null;
+
+  /** ポインタ位置をオーバーレイ内の0-1000座標に変換 */
+  const toNormalized = (e: React.PointerEvent): { x: number; y: number } => {
+    const rect = overlayRef.current!.getBoundingClientRect();
+    const clamp = (v: number) => Math.min(1000, Math.max(0, Math.round(v)));
+    return {
+      x: clamp(((e.clientX - rect.left) / rect.width) * 1000),
+      y: clamp(((e.clientY - rect.top) / rect.height) * 1000),
+    };
+  };
+
+  const beginDrag = (e: React.PointerEvent, state: DragState, working: Annotation[]) => {
+    overlayRef.current?.setPointerCapture(e.pointerId);
+    setDrag(state);
+    setDraft(working);
+  };
+
+  // 背景のクリック: 選択解除 or 図形の作成
+  const handleOverlayPointerDown = (e: React.PointerEvent) => {
+    const point = toNormalized(e);
+    if (tool === 'select') {
+      setSelectedId(null);
+      return;
+    }
+
+    if (tool === 'badge' || tool === 'text' || tool === 'keys') {
+      // クリック位置に既定サイズで配置
+      const annotation = tool === 'badge'
+        ? createAnnotation('badge', [
+          point.y - BADGE_SIZE / 2, point.x - BADGE_SIZE / 2,
+          point.y + BADGE_SIZE / 2, point.x + BADGE_SIZE / 2,
+        ], String(annotations.filter(a => a.type === 'badge').length + 1))
+        : tool === 'keys'
+          ? createAnnotation('keys', [point.y, point.x, point.y + KEYS_BOX.height, point.x + KEYS_BOX.width], 'Ctrl+C')
+          : createAnnotation('text', [point.y, point.x, point.y + TEXT_BOX.height, point.x + TEXT_BOX.width], 'テキスト');
+      onChange([...annotations, annotation]);
+      setSelectedId(annotation.id);
+      setTool('select');
+      return;
+    }
+
+    const annotation = createAnnotation(tool, [point.y, point.x, point.y, point.x]);
+    setSelectedId(annotation.id);
+    beginDrag(e, { mode: 'create', id: annotation.id, start: point, original: annotation }, [...annotations, annotation]);
+  };
+
+  // 図形のクリック: 選択して移動開始
+  const handleShapePointerDown = (e: React.PointerEvent, annotation: Annotation) => {
+    if (tool !== 'select') return;
+    e.stopPropagation();
+    setSelectedId(annotation.id);
+    beginDrag(e, { mode: 'move', id: annotation.id, start: toNormalized(e), original: annotation }, annotations);
+  };
+
+  // ハンドルのクリック: リサイズ開始
+  const handleHandlePointerDown = (e: React.PointerEvent, annotation: Annotation, handle: number) => {
+    e.stopPropagation();
+    beginDrag(e, { mode: 'resize', id: annotation.id, handle, start: toNormalized(e), original: annotation }, annotations);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag || !draft) return;
+    const point = toNormalized(e);
+    const [y1, x1, y2, x2] = drag.original.box;
+    let box: [number, number, number, number];
+
+    if (drag.mode === 'move') {
+      const dx = point.x - drag.start.x;
+      const dy = point.y - drag.start.y;
+      box = [y1 + dy, x1 + dx, y2 + dy, x2 + dx];
+    } else if (drag.mode === 'create') {
+      box = [drag.start.y, drag.start.x, point.y, point.x];
+    } else if (drag.original.type === 'arrow') {
+      box = drag.handle === 0 ? [point.y, point.x, y2, x2] : [y1, x1, point.y, point.x];
+    } else {
+      const top = drag.handle === 0 || drag.handle === 1;
+      const left = drag.handle === 0 || drag.handle === 2;
+      box = [top ? point.y : y1, left ? point.x : x1, top ? y2 : point.y, left ? x2 : point.x];
+    }
+
+    setDraft(draft.map(a => (a.id === drag.id ? { ...a, box } : a)));
+  };
+
+  const handlePointerUp = () => {
+    if (drag && draft) {
+      const result = draft
+        .map(a => (a.id === drag.id && a.type !== 'arrow' ? { ...a, box: orderAnnotationBox(a.box) } : a))
+        .filter(a => {
+          if (drag.mode !== 'create' || a.id !== drag.id) return true;
+          const [y1, x1, y2, x2] = a.box;
+          return Math.max(Math.abs(y2 - y1), Math.abs(x2 - x1)) >= MIN_SHAPE_SIZE;
+        });
+      onChange(result);
+    }
+    setDrag(null);
+    setDraft(null);
+  };
+
+  const updateSelected = (patch: Partial<Annotation>) => {
+    if (!selectedId) return;
+    onChange(annotations.map(a => (a.id === selectedId ? { ...a, ...patch } : a)));
+  };
+
+  const deleteSelected = () => {
+    if (!selectedId) return;
+    onChange(annotations.filter(a => a.id !== selectedId));
+    setSelectedId(null);
+  };
+
+  const boxStyle = ([ymin, xmin, ymax, xmax]: [number, number, number, number]): React.CSSProperties => {
+    const [top, left, bottom, right] = orderAnnotationBox([ymin, xmin, ymax, xmax]);
+    return {
+      top: `${top / 10}%`,
+      left: `${left / 10}%`,
+      height: `${(bottom - top) / 10}%`,
+      width: `${(right - left) / 10}%`,
+    };
+  };
+
+  const handleStyle = (y: number, x: number): React.CSSProperties => ({
+    top: `${y / 10}%`,
+    left: `${x / 10}%`,
+  });
+
+  /** 選択中の図形のリサイズハンドル位置 [y, x] */
+  const handlePositions = (annotation: Annotation): [number, number][] => {
+    const [y1, x1, y2, x2] = annotation.box;
+    return annotation.type === 'arrow'
+      ? [[y1, x1], [y2, x2]]
+      : [[y1, x1], [y1, x2], [y2, x1], [y2, x2]];
+  };
+
+  return (
+    <div className="space-y-2">
+      {/* ツールバー */}
+      <div className="flex items-center gap-1 flex-wrap print:hidden">
+        {TOOLS.map(t => (
+          <button
+            key={t.id}
+            onClick={() => setTool(t.id)}
+            className={`p-2 rounded-lg border transition-colors ${tool === t.id
+              ? 'border-indigo-500 bg-indigo-50 text-indigo-700'
+              : 'border-slate-200 bg-white text-slate-500 hover:bg-slate-50'
+              }`}
+            title={t.label}
+          >
+            {t.icon}
+          </button>
+        ))}
+        <div className="w-px h-6 bg-slate-200 mx-1" />
+        <button
+          onClick={deleteSelected}
+          disabled={!selectedId}
+          className="p-2 rounded-lg border border-slate-200 bg-white text-slate-500 hover:text-red-600 hover:bg-red-50 disabled:opacity-40"
+          title="選択した図形を削除"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="relative rounded-lg border border-slate-200 overflow-hidden bg-black shadow-inner select-none">
+        {children}
+        <div
+          ref={overlayRef}
+          className={`absolute inset-0 touch-none ${tool === 'select' ? 'cursor-default' : 'cursor-crosshair'}`}
+          onPointerDown={handleOverlayPointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+        >
+          {/* 矢印（線の上だけクリック可能） */}
+          <svg viewBox="0 0 1000 1000" preserveAspectRatio="none" className="absolute inset-0 w-full h-full pointer-events-none">
+            {shown.filter(a => a.type === 'arrow').map(a => (
+              <line
+                key={a.id}
+                x1={a.box[1]}
+                y1={a.box[0]}
+                x2={a.box[3]}
+                y2={a.box[2]}
+                stroke={a.id === selectedId ? '#6366f1' : 'transparent'}
+                strokeWidth={12}
+                strokeDasharray={a.id === selectedId ? '4 4' : undefined}
+                vectorEffect="non-scaling-stroke"
+                style={{ pointerEvents: 'stroke', cursor: tool === 'select' ? 'move' : undefined }}
+                onPointerDown={(e) => handleShapePointerDown(e, a)}
+              />
+            ))}
+          </svg>
+
+          {/* 矩形系の図形 */}
+          {shown.filter(a => a.type !== 'arrow').map(a => (
+            <div
+              key={a.id}
+              className={`absolute ${a.id === selectedId ? 'outline-2 outline-dashed outline-indigo-500' : ''} ${tool === 'select' ? 'cursor-move' : ''}`}
+              style={boxStyle(a.box)}
+              onPointerDown={(e) => handleShapePointerDown(e, a)}
+            />
+          ))}
+
+          {/* リサイズハンドル */}
+          {selected && tool === 'select' && handlePositions(selected).map(([y, x], i) => (
+            <div
+              key={i}
+              className="absolute w-3 h-3 -ml-1.5 -mt-1.5 bg-white border-2 border-indigo-500 rounded-sm cursor-pointer"
+              style={handleStyle(y, x)}
+              onPointerDown={(e) => handleHandlePointerDown(e, selected, i)}
+            />
+          ))}
+        </div>
+      </div>
+
+      {/* 選択中の図形の設定 */}
+      {selected && (
+        <div className="flex items-center gap-2 print:hidden">
+          {COLORS.map(color => (
+            <button
+              key={color}
+              onClick={() => updateSelected({ color })}
+              className={`w-5 h-5 rounded-full border-2 ${(selected.color ?? ANNOTATION_COLOR) === color ? 'border-slate-700' : 'border-white'}`}
+              style={{ backgroundColor: color }}
+              title={color}
+            />
+          ))}
+          {LABELED_TYPES.includes(selected.type) && (
+            <input
+              key={selected.id}
+              defaultValue={selected.label ?? ''}
+              onBlur={(e) => e.target.value !== (selected.label ?? '') && updateSelected({ label: e.target.value })}
+              onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+              placeholder="ラベル"
+              className="flex-1 px-2 py-1 text-sm border border-slate-200 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-300"
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnnotationEditor;
@@ -0,0 +1,136 @@
+import React, { useRef, useState } from 'react';
+import { Activity, Wand2 } from 'lucide-react';
+import { ChangeSample, SceneScan } from '../types';
+
+interface ChangeTimelineProps {
+  scan: SceneScan;
+  /** 現在の閾値（0-1） */
+  threshold: number;
+  /** 自動閾値を使用中か */
+  isAuto: boolean;
+  /** 現在の閾値で選ばれるフレーム */
+  selected: ChangeSample[];
+  onThresholdChange: (threshold: number) => void;
+  onResetAuto: () => void;
+}
+
+/** SVG座標系のサイズ */
+const VIEW_WIDTH = 1000;
+const VIEW_HEIGHT = 160;
+
+/**
+ * シーン変化スコアの時系列グラフ
+ * 閾値ラインをドラッグすると、再スキャンせずに抽出フレームを選び直せる
+ */
+const ChangeTimeline: React.FC<ChangeTimelineProps> = ({
+  scan,
+  threshold,
+  isAuto,
+  selected,
+  onThresholdChange,
+  onResetAuto,
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const maxScore = scan.samples.reduce((max, s) => Math.max(max, s.changeScore), 0);
+  // 縦軸の上限: 最大スコアと自動閾値が収まるように余白を取る
+  // （ドラッグ中に縮尺が変わらないよう、現在の閾値には依存させない）
+  const yMax = Math.max(0.05, maxScore, scan.autoThreshold) * 1.1;
+
+  const toX = (time: number) => (scan.duration > 0 ? (time / scan.duration) * VIEW_WIDTH : 0);
+  const toY = (score: number) => VIEW_HEIGHT - (score / yMax) * VIEW_HEIGHT;
+
+  const points = scan.samples
+    .map(s => `${toX(s.timestamp).toFixed(1)},${toY(s.changeScore).toFixed(1)}`)
+    .join(' ');
+
+  /** ポインタのY座標を閾値に変換 */
+  const updateThreshold = (e: React.PointerEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const ratio = 1 - (e.clientY - rect.top) / rect.height;
+    onThresholdChange(Math.min(yMax, Math.max(0, ratio * yMax)));
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-xl border border-slate-100">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm text-slate-600 flex items-center gap-1.5">
+          <Activity className="w-4 h-4" />
+          変化スコア（{selected.length}フレーム選択）
+        </span>
+        <div className="flex items-center gap-2">
+          <span className="text-xs font-bold text-indigo-600 bg-indigo-50 px-2 py-0.5 rounded-lg">
+            閾値 {threshold.toFixed(3)}{isAuto && ' (自動)'}
+          </span>
+          {!isAuto && (
+            <button
+              onClick={onResetAuto}
+              className="flex items-center gap-1 text-[10px] font-bold text-slate-400 hover:text-indigo-600 transition-colors"
+            >
+              <Wand2 className="w-3 h-3" />
+              自動に戻す
+            </button>
+          )}
+        </div>
+      </div>
+
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full h-32 bg-slate-50 rounded-lg cursor-ns-resize touch-none"
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          setIsDragging(true);
+          updateThreshold(e);
+        }}
+        onPointerMove={(e) => isDragging && updateThreshold(e)}
+        onPointerUp={() => setIsDragging(false)}
+      >
+        {/* 選択されたフレーム */}
+        {selected.map(s => (
+          <line
+            key={s.timestamp}
+            x1={toX(s.timestamp)}
+            x2={toX(s.timestamp)}
+            y1={0}
+            y2={VIEW_HEIGHT}
+            stroke="#a5b4fc"
+            strokeWidth={3}
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+
+        {/* スコア系列 */}
+        <polyline
+          points={points}
+          fill="none"
+          stroke="#4f46e5"
+          strokeWidth={1.5}
+          vectorEffect="non-scaling-stroke"
+        />
+
+        {/* 閾値ライン */}
+        <line
+          x1={0}
+          x2={VIEW_WIDTH}
+          y1={toY(Math.min(threshold, yMax))}
+          y2={toY(Math.min(threshold, yMax))}
+          stroke="#ef4444"
+          strokeWidth={2}
+          strokeDasharray="6 4"
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+
+      <div className="flex justify-between text-[10px] text-slate-400 mt-1">
+        <span>0秒</span>
+        <span>グラフをドラッグして閾値を調整</span>
+        <span>{scan.duration.toFixed(1)}秒</span>
+      </div>
+    </div>
+  );
+};
+
+export default ChangeTimeline;
@@ -0,0 +1,91 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown, Download, Loader2 } from 'lucide-react';
+
+export interface ExportMenuItem {
+  id: string;
+  label: string;
+  description?: string;
+  onSelect: () => void;
+}
+
+/** 書き出し全体に関わるオン/オフ設定 */
+export interface ExportMenuOption {
+  id: string;
+  label: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}
+
+interface ExportMenuProps {
+  items: ExportMenuItem[];
+  options?: ExportMenuOption[];
+  /** 書き出し中（ボタンを無効化してスピナーを表示） */
+  isExporting?: boolean;
+}
+
+/**
+ * ヘッダーの書き出しメニュー
+ */
+const ExportMenu: React.FC<ExportMenuProps> = ({ items, options, isExporting }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // メニューの外側をクリックしたら閉じる
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    window.addEventListener('pointerdown', handlePointerDown);
+    return () => window.removeEventListener('pointerdown', handlePointerDown);
+  }, [isOpen]);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={isExporting}
+        className="flex items-center gap-2 px-4 py-2 bg-slate-900 text-white rounded-lg hover:bg-slate-800 transition-all text-sm font-bold shadow-md active:scale-95 disabled:opacity-60"
+      >
+        {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+        {isExporting ? '書き出し中...' : '書き出し'}
+        <ChevronDown className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 bg-white rounded-xl border border-slate-200 shadow-xl py-2 z-30">
+          {items.map(item => (
+            <button
+              key={item.id}
+              onClick={() => {
+                setIsOpen(false);
+                item.onSelect();
+              }}
+              className="w-full text-left px-4 py-2 hover:bg-slate-50 transition-colors"
+            >
+              <div className="text-sm font-bold text-slate-700">{item.label}</div>
+              {item.description && <div className="text-[10px] text-slate-400">{item.description}</div>}
+            </button>
+          ))}
+          {options && options.length > 0 && (
+            <div className="mt-2 pt-2 px-4 border-t border-slate-100 space-y-1">
+              {options.map(option => (
+                <label key={option.id} className="flex items-center gap-2 py-1 text-xs text-slate-600 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={option.checked}
+                    onChange={(e) => option.onChange(e.target.checked)}
+                    className="accent-indigo-600"
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
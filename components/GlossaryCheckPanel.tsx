@@ -0,0 +1,69 @@
+import React from 'react';
+import { BookOpen, Wand2 } from 'lucide-react';
+import { GlossaryIssue, Step } from '../types';
+import { getLanguage } from '../languages';
+
+interface GlossaryCheckPanelProps {
+  steps: Step[];
+  issues: GlossaryIssue[];
+  /** 指定した違反を修正する（使用禁止の表記を正式な訳語に置き換える） */
+  onFix: (issues: GlossaryIssue[]) => void;
+}
+
+const FIELD_LABELS: Record<GlossaryIssue['field'], string> = {
+  title: 'タイトル',
+  description: '説明',
+};
+
+/**
+ * 用語集に違反しているステップの一覧
+ */
+const GlossaryCheckPanel: React.FC<GlossaryCheckPanelProps> = ({ steps, issues, onFix }) => {
+  const fixable = issues.filter(issue => issue.found);
+
+  return (
+    <div className="bg-amber-50 p-4 rounded-2xl border border-amber-100 print:hidden">
+      <div className="flex items-center justify-between gap-4 mb-2">
+        <h3 className="text-sm font-bold text-amber-800 flex items-center gap-1.5">
+          <BookOpen className="w-4 h-4" />
+          用語集と異なる表記が {issues.length} 件あります
+        </h3>
+        {fixable.length > 1 && (
+          <button
+            onClick={() => onFix(fixable)}
+            className="flex items-center gap-1 text-xs font-bold text-amber-700 hover:text-amber-900"
+          >
+            <Wand2 className="w-3 h-3" />
+            すべて修正（{fixable.length}件）
+          </button>
+        )}
+      </div>
+      <ul className="space-y-1 max-h-48 overflow-y-auto">
+        {issues.map((issue, i) => {
+          const index = steps.findIndex(s => s.id === issue.stepId);
+          return (
+            <li key={`${issue.stepId}-${issue.lang}-${issue.field}-${i}`} className="flex items-center justify-between gap-3 text-xs text-amber-900">
+              <span>
+                <span className="font-bold">ステップ {index + 1}</span>
+                <span className="text-amber-600">（{getLanguage(issue.lang).nativeLabel}・{FIELD_LABELS[issue.field]}）</span>
+                {issue.found
+                  ? <>「{issue.found}」→「{issue.expected}」</>
+                  : <>用語集の訳語「{issue.expected}」が使われていません</>}
+              </span>
+              {issue.found && (
+                <button
+                  onClick={() => onFix([issue])}
+                  className="shrink-0 px-2 py-0.5 rounded-md bg-white border border-amber-200 font-bold text-amber-700 hover:bg-amber-100"
+                >
+                  修正
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default GlossaryCheckPanel;
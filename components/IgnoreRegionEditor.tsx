@@ -0,0 +1,156 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { EyeOff, Trash2 } from 'lucide-react';
+
+type Region = [number, number, number, number]; // [ymin, xmin, ymax, xmax] 0-1000
+
+interface IgnoreRegionEditorProps {
+  videoFile: File;
+  regions: Region[];
+  onChange: (regions: Region[]) => void;
+}
+
+/** これより小さい矩形（0-1000スケール）は誤操作として無視 */
+const MIN_REGION_SIZE = 5;
+
+/**
+ * プレビューフレーム上に矩形を描いて、シーン変化検出の除外領域を指定するエディター
+ * 時計・点滅するカーソル・マウスポインタなどの領域を除外するために使う
+ */
+const IgnoreRegionEditor: React.FC<IgnoreRegionEditorProps> = ({ videoFile, regions, onChange }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [duration, setDuration] = useState(0);
+  const [previewTime, setPreviewTime] = useState(0);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [draft, setDraft] = useState<Region | null>(null);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(videoFile);
+    setVideoUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [videoFile]);
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.currentTime = previewTime;
+    }
+  }, [previewTime]);
+
+  /** ポインタ位置をオーバーレイ内の0-1000座標に変換 */
+  const toNormalized = (e: React.PointerEvent): { x: number; y: number } => {
+    const rect = overlayRef.current!.getBoundingClientRect();
+    const clamp = (v: number) => Math.min(1000, Math.max(0, Math.round(v)));
+    return {
+      x: clamp(((e.clientX - rect.left) / rect.width) * 1000),
+      y: clamp(((e.clientY - rect.top) / rect.height) * 1000),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragStart(toNormalized(e));
+    setDraft(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragStart) return;
+    const { x, y } = toNormalized(e);
+    setDraft([
+      Math.min(dragStart.y, y),
+      Math.min(dragStart.x, x),
+      Math.max(dragStart.y, y),
+      Math.max(dragStart.x, x),
+    ]);
+  };
+
+  const handlePointerUp = () => {
+    if (draft && draft[2] - draft[0] >= MIN_REGION_SIZE && draft[3] - draft[1] >= MIN_REGION_SIZE) {
+      onChange([...regions, draft]);
+    }
+    setDragStart(null);
+    setDraft(null);
+  };
+
+  const regionStyle = ([ymin, xmin, ymax, xmax]: Region): React.CSSProperties => ({
+    top: `${ymin / 10}%`,
+    left: `${xmin / 10}%`,
+    height: `${(ymax - ymin) / 10}%`,
+    width: `${(xmax - xmin) / 10}%`,
+  });
+
+  return (
+    <div className="bg-white p-4 rounded-xl border border-slate-100">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm text-slate-600 flex items-center gap-1.5">
+          <EyeOff className="w-4 h-4" />
+          除外領域（時計・カーソルなど）
+        </span>
+        {regions.length > 0 && (
+          <button
+            onClick={() => onChange([])}
+            className="text-[10px] font-bold text-slate-400 hover:text-red-500 transition-colors"
+          >
+            すべて削除
+          </button>
+        )}
+      </div>
+
+      <div className="relative rounded-lg overflow-hidden bg-black select-none">
+        {videoUrl && (
+          <video
+            ref={videoRef}
+            src={videoUrl}
+            muted
+            playsInline
+            preload="auto"
+            onLoadedMetadata={(e) => setDuration(e.currentTarget.duration)}
+            className="w-full h-auto block"
+          />
+        )}
+        <div
+          ref={overlayRef}
+          className="absolute inset-0 cursor-crosshair touch-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+        >
+          {regions.map((region, i) => (
+            <div
+              key={i}
+              className="absolute bg-slate-900/50 border-2 border-amber-400"
+              style={regionStyle(region)}
+            >
+              <button
+                onPointerDown={(e) => e.stopPropagation()}
+                onClick={() => onChange(regions.filter((_, j) => j !== i))}
+                className="absolute -top-2 -right-2 w-5 h-5 rounded-full bg-white text-red-500 flex items-center justify-center shadow"
+                title="この領域を削除"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+          {draft && (
+            <div className="absolute bg-amber-400/30 border-2 border-dashed border-amber-400" style={regionStyle(draft)} />
+          )}
+        </div>
+      </div>
+
+      <input
+        type="range"
+        min={0}
+        max={duration || 0}
+        step={0.1}
+        value={previewTime}
+        onChange={(e) => setPreviewTime(Number(e.target.value))}
+        className="w-full h-2 mt-3 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+      />
+      <p className="text-[10px] text-slate-400 mt-1">
+        プレビュー上をドラッグして、変化を無視したい領域を囲んでください（{previewTime.toFixed(1)}秒）
+      </p>
+    </div>
+  );
+};
+
+export default IgnoreRegionEditor;
@@ -0,0 +1,115 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Loader2, Plus, X } from 'lucide-react';
+
+interface InsertStepPanelProps {
+  videoFile: File;
+  /** 指定時刻のフレームからステップを追加（analyze=true ならAIで解析する。追加できなければ false） */
+  onInsert: (timestamp: number, analyze: boolean) => Promise<boolean>;
+  onClose: () => void;
+}
+
+/**
+ * 元動画の任意の時刻を選んで新しいステップを追加するパネル
+ */
+const InsertStepPanel: React.FC<InsertStepPanelProps> = ({ videoFile, onInsert, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [duration, setDuration] = useState(0);
+  const [timestamp, setTimestamp] = useState(0);
+  const [analyze, setAnalyze] = useState(true);
+  const [isInserting, setIsInserting] = useState(false);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(videoFile);
+    setVideoUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [videoFile]);
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.currentTime = timestamp;
+    }
+  }, [timestamp]);
+
+  const handleInsert = async () => {
+    setIsInserting(true);
+    try {
+      // 失敗した場合は時刻を選び直せるようパネルを開いたままにする（エラーは呼び出し側で表示する）
+      if (await onInsert(timestamp, analyze)) onClose();
+    } finally {
+      setIsInserting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-2xl border border-indigo-200 shadow-lg print:hidden">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-bold text-slate-800 flex items-center gap-2">
+          <Plus className="w-4 h-4 text-indigo-600" />
+          動画からステップを追加
+        </h3>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600" title="閉じる">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="rounded-lg overflow-hidden bg-black">
+        {videoUrl && (
+          <video
+            ref={videoRef}
+            src={videoUrl}
+            muted
+            playsInline
+            preload="auto"
+            onLoadedMetadata={(e) => setDuration(e.currentTarget.duration)}
+            className="w-full h-auto block"
+          />
+        )}
+      </div>
+
+      <div className="flex items-center gap-3 mt-3">
+        <input
+          type="range"
+          min={0}
+          max={duration || 0}
+          step={0.05}
+          value={timestamp}
+          onChange={(e) => setTimestamp(Number(e.target.value))}
+          className="flex-1 h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+        />
+        <input
+          type="number"
+          min={0}
+          max={duration || 0}
+          step={0.05}
+          value={timestamp.toFixed(2)}
+          onChange={(e) => setTimestamp(Math.min(duration, Math.max(0, Number(e.target.value))))}
+          className="w-24 px-2 py-1 text-sm font-mono border border-slate-200 rounded-lg"
+        />
+        <span className="text-xs text-slate-400">秒</span>
+      </div>
+
+      <div className="flex items-center justify-between mt-4">
+        <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={analyze}
+            onChange={(e) => setAnalyze(e.target.checked)}
+            className="accent-indigo-600"
+          />
+          AIで解析してタイトルと説明を生成する
+        </label>
+        <button
+          onClick={handleInsert}
+          disabled={isInserting}
+          className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white text-sm font-bold rounded-xl hover:bg-indigo-700 transition-colors disabled:opacity-60"
+        >
+          {isInserting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+          この時刻のフレームを追加
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default InsertStepPanel;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { Clock, FolderOpen, Trash2 } from 'lucide-react';
+import { ProjectSummary } from '../types';
+import { PROJECT_FILE_EXTENSION } from '../utils/projectFile';
+
+interface RecentProjectsProps {
+  projects: ProjectSummary[];
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+  /** プロジェクトファイル（JSON）の読み込み */
+  onImport: (file: File) => void;
+}
+
+/**
+ * トップ画面の「最近のプロジェクト」一覧とプロジェクトファイルの読み込み
+ */
+const RecentProjects: React.FC<RecentProjectsProps> = ({ projects, onOpen, onDelete, onImport }) => {
+  return (
+    <div className="mt-12">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-bold text-slate-700 flex items-center gap-2">
+          <Clock className="w-4 h-4 text-indigo-600" />
+          最近のプロジェクト
+        </h3>
+        <label className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-bold bg-white text-indigo-600 border border-indigo-200 hover:bg-indigo-50 transition-colors cursor-pointer">
+          <FolderOpen className="w-4 h-4" />
+          プロジェクトファイルを開く
+          <input
+            type="file"
+            className="hidden"
+            accept={`${PROJECT_FILE_EXTENSION},.json,application/json`}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+      </div>
+
+      {projects.length === 0 ? (
+        <p className="text-sm text-slate-400 bg-white p-6 rounded-2xl border border-slate-100 text-center">
+          作成した手順書はこのブラウザに自動保存され、ここから再開できます。
+        </p>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+          {projects.map(project => (
+            <div
+              key={project.id}
+              className="group relative bg-white rounded-2xl border border-slate-100 shadow-sm hover:shadow-md transition-all overflow-hidden"
+            >
+              <button onClick={() => onOpen(project.id)} className="block w-full text-left">
+                <div className="aspect-video bg-slate-100">
+                  {project.thumbnail && (
+                    <img src={project.thumbnail} alt="" className="w-full h-full object-cover" />
+                  )}
+                </div>
+                <div className="p-3">
+                  <p className="text-sm font-bold text-slate-800 truncate">{project.title}</p>
+                  <p className="text-[10px] text-slate-400 mt-1">
+                    {project.stepCount}ステップ • {new Date(project.savedAt).toLocaleString()}
+                  </p>
+                </div>
+              </button>
+              <button
+                onClick={() => onDelete(project.id)}
+                className="absolute top-2 right-2 p-1.5 rounded-lg bg-white/90 text-slate-400 hover:text-red-600 opacity-0 group-hover:opacity-100 transition-all"
+                title="このプロジェクトを削除"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecentProjects;
@@ -1,14 +1,180 @@
 
-import React, { useEffect, useRef } from 'react';
-import { Step, Translation } from '../types';
-import { drawAnnotation } from '../utils/videoProcessor';
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, Download, Film, GripVertical, Keyboard, Loader2, Merge, MousePointerClick, RotateCcw, Trash2 } from 'lucide-react';
+import { AnalysisErrorCode, Annotation, ClipFormat, Step, StepClip, Translation } from '../types';
+import { drawAnnotations, getStepAnnotations } from '../utils/annotations';
+import { describeAction } from '../utils/actions';
+import { getLanguage } from '../languages';
+import { useClipUrl } from '../hooks/useClipUrl';
+import AnnotationEditor from './AnnotationEditor';
 
 interface StepCardProps {
   step: Step;
   index: number;
+  /** 操作の説明などの定型文言の表示言語（選択中の先頭の言語） */
+  labelLang: string;
+  /** 解析に失敗したステップの再解析（省略時はボタン非表示） */
+  onRetry?: () => void;
+  /** 編集モード（タイトル・説明のインライン編集、削除・結合・並べ替え） */
+  isEditing?: boolean;
+  onChangeTranslation?: (lang: string, patch: Partial<Translation>) => void;
+  onDelete?: () => void;
+  /** 次のステップとの結合（最後のステップでは省略） */
+  onMergeNext?: () => void;
+  /** 並べ替え用ドラッグハンドルのドラッグ開始 */
+  onDragStart?: (e: React.DragEvent) => void;
+  /** アノテーションの編集（編集モード時のみ） */
+  onChangeAnnotations?: (annotations: Annotation[]) => void;
+  /** クリップの作成（元動画がない場合は省略） */
+  onCreateClip?: (format: ClipFormat) => void;
+  onRemoveClip?: () => void;
+  /** クリップ作成中の進捗（0-100, 作成中でなければ undefined） */
+  clipProgress?: number;
 }
 
-const StepCard: React.FC<StepCardProps> = ({ step, index }) => {
+/** 解析エラーの原因の表示（エラーコードごと） */
+const ERROR_CODE_MESSAGES: Record<AnalysisErrorCode, string> = {
+  invalid_request: 'リクエストの内容が不足しています。',
+  unsupported_language: '対応していない言語が選択されています。',
+  invalid_json: 'AIの出力を読み取れませんでした。再解析してください。',
+  invalid_response: 'AIの出力の形式が正しくありませんでした。再解析してください。',
+  missing_languages: '一部の言語の翻訳が得られませんでした。再解析してください。',
+  config_error: 'サーバーの設定に問題があります（APIキーなど）。',
+  rate_limited: 'AIの利用回数の上限に達しました。しばらく待ってから再解析してください。',
+  provider_error: 'AIの呼び出しに失敗しました。時間をおいて再解析してください。',
+};
+
+interface EditableTextProps {
+  value: string;
+  multiline?: boolean;
+  className?: string;
+  onCommit: (value: string) => void;
+}
+
+/**
+ * フォーカスが外れた時点で確定するテキスト入力
+ * （1文字ごとに編集履歴が積まれないようにする）
+ */
+const EditableText: React.FC<EditableTextProps> = ({ value, multiline, className, onCommit }) => {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  const commit = () => {
+    if (draft !== value) onCommit(draft);
+  };
+
+  const inputClass = `w-full bg-white border border-slate-200 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-300 ${className ?? ''}`;
+
+  return multiline ? (
+    <textarea
+      value={draft}
+      rows={3}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      className={inputClass}
+    />
+  ) : (
+    <input
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+      className={inputClass}
+    />
+  );
+};
+
+interface ClipPanelProps {
+  clip?: StepClip;
+  index: number;
+  isEditing?: boolean;
+  onCreateClip?: (format: ClipFormat) => void;
+  onRemoveClip?: () => void;
+  clipProgress?: number;
+}
+
+/**
+ * ステップのクリップ（GIF / WebM）の再生・ダウンロード・作成
+ */
+const ClipPanel: React.FC<ClipPanelProps> = ({ clip, index, isEditing, onCreateClip, onRemoveClip, clipProgress }) => {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const clipUrl = useClipUrl(clip?.blobId);
+  const buttonClass = "flex items-center gap-1.5 px-2.5 py-1 rounded-lg border border-slate-200 bg-white text-xs font-bold text-slate-600 hover:bg-slate-50 transition-colors disabled:opacity-50";
+
+  if (!clip && !(isEditing && onCreateClip)) return null;
+
+  return (
+    <div className="mt-3 print:hidden">
+      {clip && clipUrl && isPlaying && (
+        <div className="rounded-lg border border-slate-200 overflow-hidden bg-black mb-2">
+          {clip.format === 'gif'
+            ? <img src={clipUrl} alt="" className="w-full h-auto block" />
+            : <video src={clipUrl} autoPlay loop muted playsInline controls className="w-full h-auto block" />}
+        </div>
+      )}
+      <div className="flex items-center gap-2 flex-wrap">
+        {clip && clipUrl && (
+          <>
+            <button onClick={() => setIsPlaying(!isPlaying)} className={buttonClass}>
+              <Film className="w-3.5 h-3.5" />
+              {isPlaying ? 'クリップを閉じる' : `クリップを再生（${(clip.end - clip.start).toFixed(1)}秒）`}
+            </button>
+            <a
+              href={clipUrl}
+              download={`step-${String(index + 1).padStart(2, '0')}.${clip.format}`}
+              className={buttonClass}
+            >
+              <Download className="w-3.5 h-3.5" />
+              {clip.format.toUpperCase()}
+            </a>
+          </>
+        )}
+        {isEditing && onCreateClip && (
+          clipProgress !== undefined ? (
+            <span className="flex items-center gap-1.5 text-xs text-indigo-600">
+              <Loader2 className="w-3.5 h-3.5 animate-spin" />
+              クリップを作成中... {clipProgress}%
+            </span>
+          ) : (
+            <>
+              <button onClick={() => onCreateClip('gif')} className={buttonClass}>
+                {clip ? 'GIFで作り直す' : 'GIFクリップを作成'}
+              </button>
+              <button onClick={() => onCreateClip('webm')} className={buttonClass}>
+                {clip ? 'WebMで作り直す' : 'WebMクリップを作成'}
+              </button>
+              {clip && onRemoveClip && (
+                <button onClick={onRemoveClip} className={`${buttonClass} hover:text-red-600`}>
+                  <Trash2 className="w-3.5 h-3.5" />
+                  クリップを削除
+                </button>
+              )}
+            </>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
+
+const StepCard: React.FC<StepCardProps> = ({
+  step,
+  index,
+  labelLang,
+  onRetry,
+  isEditing,
+  onChangeTranslation,
+  onDelete,
+  onMergeNext,
+  onDragStart,
+  onChangeAnnotations,
+  onCreateClip,
+  onRemoveClip,
+  clipProgress,
+}) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
   useEffect(() => {
@@ -23,76 +189,184 @@ const StepCard: React.FC<StepCardProps> = ({ step, index }) => {
       const ctx = canvas.getContext('2d');
       if (ctx) {
         ctx.drawImage(img, 0, 0);
-        if (step.boundingBox) {
-          drawAnnotation(canvas, step.boundingBox);
-        }
+        drawAnnotations(canvas, annotations);
       }
     };
-  }, [step]);
-
-  const langLabels: Record<string, string> = {
-    ja: "日本語",
-    en: "English",
-    zh: "中国語",
-    ko: "韓国語"
-  };
+  }, [step, isEditing]);
 
+  const annotations = getStepAnnotations(step);
   const primaryLang = Object.keys(step.translations)[0];
+  const status = step.status ?? 'done';
 
   return (
     <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden mb-8 transition-all hover:shadow-md break-inside-avoid">
       <div className="p-4 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between">
         <div className="flex items-center gap-3">
+          {isEditing && (
+            <span
+              draggable
+              onDragStart={onDragStart}
+              className="text-slate-300 hover:text-slate-500 cursor-grab active:cursor-grabbing print:hidden"
+              title="ドラッグして並べ替え"
+            >
+              <GripVertical className="w-5 h-5" />
+            </span>
+          )}
           <span className="w-8 h-8 rounded-full bg-indigo-600 text-white flex items-center justify-center font-bold text-sm">
             {index + 1}
           </span>
-          <h3 className="text-lg font-semibold text-slate-800">
-            {step.translations[primaryLang]?.title}
+          <h3 className="text-lg font-semibold text-slate-800" lang={primaryLang} dir={primaryLang ? getLanguage(primaryLang).dir : undefined}>
+            {status === 'done'
+              ? step.translations[primaryLang]?.title
+              : <span className="text-slate-400">{status === 'error' ? '解析に失敗しました' : '解析待ち'}</span>}
           </h3>
         </div>
-        <span className="text-xs font-mono text-slate-400">
-          タイムスタンプ: {step.timestamp.toFixed(2)}秒
-        </span>
+        <div className="flex items-center gap-3">
+          <span className="text-xs font-mono text-slate-400">
+            タイムスタンプ: {step.timestamp.toFixed(2)}秒
+          </span>
+          {isEditing && (
+            <div className="flex items-center gap-1 print:hidden">
+              {onMergeNext && (
+                <button
+                  onClick={onMergeNext}
+                  className="p-1.5 rounded-lg text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 transition-colors"
+                  title="次のステップと結合"
+                >
+                  <Merge className="w-4 h-4" />
+                </button>
+              )}
+              {onDelete && (
+                <button
+                  onClick={onDelete}
+                  className="p-1.5 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50 transition-colors"
+                  title="このステップを削除"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          )}
+        </div>
       </div>
       
       <div className="p-6 grid grid-cols-1 lg:grid-cols-2 gap-8 items-start">
-        <div className="relative rounded-lg border border-slate-200 overflow-hidden bg-black shadow-inner">
-          <canvas 
-            ref={canvasRef} 
-            className="w-full h-auto block"
+        <div>
+          {isEditing && onChangeAnnotations ? (
+            <AnnotationEditor annotations={annotations} onChange={onChangeAnnotations}>
+              <canvas
+                ref={canvasRef}
+                className="w-full h-auto block"
+              />
+            </AnnotationEditor>
+          ) : (
+            <div className="relative rounded-lg border border-slate-200 overflow-hidden bg-black shadow-inner">
+              <canvas
+                ref={canvasRef}
+                className="w-full h-auto block"
+              />
+            </div>
+          )}
+          <ClipPanel
+            clip={step.clip}
+            index={index}
+            isEditing={isEditing}
+            onCreateClip={onCreateClip}
+            onRemoveClip={onRemoveClip}
+            clipProgress={clipProgress}
           />
         </div>
         
         <div className="space-y-4">
+          {status === 'pending' && (
+            <p className="text-sm text-slate-400">このステップはまだ解析されていません。</p>
+          )}
+          {status === 'analyzing' && (
+            <div className="flex items-center gap-2 text-sm text-indigo-600">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              AIが解析しています...
+            </div>
+          )}
+          {status === 'error' && (
+            <div className="bg-red-50 border border-red-200 p-4 rounded-lg print:hidden">
+              <div className="flex items-center gap-2 text-sm font-bold text-red-700 mb-1">
+                <AlertTriangle className="w-4 h-4" />
+                このステップの解析に失敗しました
+              </div>
+              {step.errorCode && <p className="text-xs text-red-700 mb-1">{ERROR_CODE_MESSAGES[step.errorCode]}</p>}
+              {step.error && <p className="text-xs text-red-600 mb-3 break-all">{step.error}</p>}
+              {onRetry && (
+                <button
+                  onClick={onRetry}
+                  className="flex items-center gap-1.5 px-3 py-1.5 bg-red-100 text-red-700 text-xs font-bold rounded-lg hover:bg-red-200 transition-colors"
+                >
+                  <RotateCcw className="w-3 h-3" />
+                  再解析
+                </button>
+              )}
+            </div>
+          )}
+          {status === 'done' && step.action && (
+            <span lang={labelLang} dir={getLanguage(labelLang).dir} className="inline-flex items-center gap-1.5 text-xs font-bold text-slate-600 bg-slate-100 px-2 py-1 rounded-lg">
+              {step.action.type === 'shortcut' || step.action.type === 'type'
+                ? <Keyboard className="w-3.5 h-3.5" />
+                : <MousePointerClick className="w-3.5 h-3.5" />}
+              {describeAction(step.action, labelLang)}
+            </span>
+          )}
           {Object.entries(step.translations).map(([lang, content]) => (
-            <div key={lang} className="bg-slate-50 border-l-4 border-indigo-400 p-4 rounded-r-lg">
+            <div
+              key={lang}
+              lang={lang}
+              dir={getLanguage(lang).dir}
+              className="bg-slate-50 border-s-4 border-indigo-400 p-4 rounded-e-lg"
+            >
               <div className="flex items-center gap-2 mb-1">
                 <span className="text-[10px] font-bold bg-indigo-100 text-indigo-700 px-1.5 py-0.5 rounded uppercase tracking-wider">
-                  {langLabels[lang] || lang}
+                  {getLanguage(lang).nativeLabel}
                 </span>
                 {/* Fixed: Cast content to Translation type to resolve 'unknown' property access error */}
-                <h4 className="text-sm font-bold text-slate-700">{(content as Translation).title}</h4>
+                {isEditing && onChangeTranslation ? (
+                  <EditableText
+                    value={(content as Translation).title}
+                    onCommit={(title) => onChangeTranslation(lang, { title })}
+                    className="text-sm font-bold text-slate-700"
+                  />
+                ) : (
+                  <h4 className="text-sm font-bold text-slate-700">{(content as Translation).title}</h4>
+                )}
               </div>
-              <p className="text-slate-600 leading-relaxed text-base italic">
-                {/* Fixed: Cast content to Translation type to resolve 'unknown' property access error */}
-                "{(content as Translation).description}"
-              </p>
+              {isEditing && onChangeTranslation ? (
+                <EditableText
+                  value={(content as Translation).description}
+                  multiline
+                  onCommit={(description) => onChangeTranslation(lang, { description })}
+                  className="text-slate-600 leading-relaxed text-base"
+                />
+              ) : (
+                <p className="text-slate-600 leading-relaxed text-base italic">
+                  {/* Fixed: Cast content to Translation type to resolve 'unknown' property access error */}
+                  "{(content as Translation).description}"
+                </p>
+              )}
             </div>
           ))}
           
-          <div className="pt-2 space-y-2 border-t border-slate-100">
-            <h4 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">AI解析ステータス</h4>
-            <div className="flex items-center gap-2">
-              <div className="h-2 w-2 rounded-full bg-green-500"></div>
-              <span className="text-xs text-slate-500">操作内容の特定完了</span>
-            </div>
-            {step.boundingBox && (
+          {status === 'done' && (
+            <div className="pt-2 space-y-2 border-t border-slate-100">
+              <h4 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">AI解析ステータス</h4>
               <div className="flex items-center gap-2">
-                <div className="h-2 w-2 rounded-full bg-red-500"></div>
-                <span className="text-xs text-slate-500">UI要素への赤枠アノテーション適用済み</span>
+                <div className="h-2 w-2 rounded-full bg-green-500"></div>
+                <span className="text-xs text-slate-500">操作内容の特定完了</span>
               </div>
-            )}
-          </div>
+              {annotations.length > 0 && (
+                <div className="flex items-center gap-2">
+                  <div className="h-2 w-2 rounded-full bg-red-500"></div>
+                  <span className="text-xs text-slate-500">UI要素へのアノテーション適用済み（{annotations.length}件）</span>
+                </div>
+              )}
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { BookOpen, X } from 'lucide-react';
+import { Terminology } from '../types';
+import { getLanguage } from '../languages';
+import { mergeTerminology, parseTerminologyFile } from '../utils/glossary';
+
+interface TerminologyInputProps {
+  terminology: Terminology | null;
+  onChange: (terminology: Terminology | null) => void;
+  /** スタイルガイドを編集する言語 */
+  languages: string[];
+}
+
+/**
+ * プロジェクトの用語集・スタイルガイドの読み込みと編集
+ * 解析・見直し・翻訳のプロンプトに含め、書き出し前の用語チェックにも使う
+ */
+const TerminologyInput: React.FC<TerminologyInputProps> = ({ terminology, onChange, languages }) => {
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFiles = async (files: File[]) => {
+    try {
+      setError(null);
+      let merged = terminology;
+      for (const file of files) {
+        merged = mergeTerminology(merged, parseTerminologyFile(file.name, await file.text()));
+      }
+      onChange(merged);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '用語集を読み込めませんでした');
+    }
+  };
+
+  const updateStyleGuide = (lang: string, rule: string) => {
+    const styleGuide = { ...terminology?.styleGuide, [lang]: rule };
+    if (!rule.trim()) delete styleGuide[lang];
+    const glossary = terminology?.glossary ?? [];
+    onChange(glossary.length > 0 || Object.keys(styleGuide).length > 0 ? { glossary, styleGuide } : null);
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-xl border border-slate-100">
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-sm text-slate-600 flex items-center gap-1.5">
+          <BookOpen className="w-4 h-4" />
+          用語集・スタイルガイド（任意）
+        </span>
+        <div className="flex items-center gap-2">
+          {terminology && terminology.glossary.length > 0 && (
+            <span className="flex items-center gap-2 text-xs font-bold text-indigo-600 bg-indigo-50 px-2 py-0.5 rounded-lg">
+              用語 {terminology.glossary.length}件
+              <button
+                onClick={() => onChange(Object.keys(terminology.styleGuide).length > 0 ? { ...terminology, glossary: [] } : null)}
+                className="text-indigo-400 hover:text-red-600"
+                title="用語集を解除"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          )}
+          <label className="text-xs font-bold text-indigo-600 hover:text-indigo-700 cursor-pointer">
+            ファイルを選択
+            <input
+              type="file"
+              multiple
+              className="hidden"
+              accept=".csv,.tsv,.tbx,.xml,text/csv"
+              onChange={(e) => {
+                const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+                if (files.length > 0) handleFiles(files);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </div>
+      </div>
+      {error && <p className="text-[10px] text-red-600 mt-1">{error}</p>}
+      <p className="text-[10px] text-slate-400 mt-1">
+        CSV（見出し: ja,en,ja:forbidden,note / スタイルガイドは language,rule）または TBX に対応。指定した訳語と文体でAIが記述します
+      </p>
+
+      {languages.length > 0 && (
+        <div className="mt-3 space-y-2">
+          {languages.map(lang => (
+            <label key={lang} className="block">
+              <span className="text-[10px] font-bold text-slate-500">{getLanguage(lang).nativeLabel} の文体</span>
+              <textarea
+                value={terminology?.styleGuide[lang] ?? ''}
+                onChange={(e) => updateStyleGuide(lang, e.target.value)}
+                rows={1}
+                lang={lang}
+                dir={getLanguage(lang).dir}
+                placeholder={lang === 'ja' ? '例: 敬体（です・ます）で書く' : 'e.g. Use the imperative mood.'}
+                className="mt-0.5 w-full text-xs p-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 resize-y"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TerminologyInput;
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { FileText, X } from 'lucide-react';
+import { Transcript } from '../types';
+import { parseTranscript } from '../utils/transcript';
+
+interface TranscriptInputProps {
+  transcript: Transcript | null;
+  onChange: (transcript: Transcript | null) => void;
+}
+
+/**
+ * 動画に添付する字幕・文字起こしファイル（SRT / VTT / TXT）の選択
+ * 各ステップの解析時に、前のステップからの間に話された内容を文脈として渡す
+ */
+const TranscriptInput: React.FC<TranscriptInputProps> = ({ transcript, onChange }) => {
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File) => {
+    try {
+      setError(null);
+      onChange({ name: file.name, cues: parseTranscript(await file.text()) });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '字幕ファイルを読み込めませんでした');
+    }
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-xl border border-slate-100">
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-sm text-slate-600 flex items-center gap-1.5">
+          <FileText className="w-4 h-4" />
+          ナレーション字幕・文字起こし（任意）
+        </span>
+        {transcript ? (
+          <span className="flex items-center gap-2 text-xs font-bold text-indigo-600 bg-indigo-50 px-2 py-0.5 rounded-lg">
+            {transcript.name}（{transcript.cues.length}件）
+            <button onClick={() => onChange(null)} className="text-indigo-400 hover:text-red-600" title="添付を解除">
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ) : (
+          <label className="text-xs font-bold text-indigo-600 hover:text-indigo-700 cursor-pointer">
+            ファイルを選択
+            <input
+              type="file"
+              className="hidden"
+              accept=".srt,.vtt,.txt,text/vtt,text/plain"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        )}
+      </div>
+      {error && <p className="text-[10px] text-red-600 mt-1">{error}</p>}
+      <p className="text-[10px] text-slate-400 mt-1">
+        SRT / VTT、または行頭に時刻のあるテキストに対応。各ステップの直前に話された内容をAIの解析に使います
+      </p>
+    </div>
+  );
+};
+
+export default TranscriptInput;
@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react';
+import { loadClip } from '../services/projectStore';
+
+/**
+ * 保存済みのクリップ（Blob）を表示・ダウンロード用のオブジェクトURLにする
+ * クリップが変わった時・アンマウント時にURLを解放する。読み込み中・見つからない場合は null
+ *
+ * @param blobId - クリップの ID（クリップがなければ undefined）
+ */
+export const useClipUrl = (blobId: string | undefined): string | null => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    setUrl(null);
+    if (!blobId) return;
+
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    loadClip(blobId)
+      .then(blob => {
+        if (cancelled || !blob) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch(err => console.error('Failed to load clip:', err));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [blobId]);
+
+  return url;
+};
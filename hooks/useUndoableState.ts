@@ -0,0 +1,77 @@
+import { useCallback, useState } from 'react';
+
+/** 保持する履歴の最大数 */
+const MAX_HISTORY = 100;
+
+interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+/**
+ * 元に戻す / やり直しに対応した状態フック
+ *
+ * - set: 変更を履歴に積む（ユーザーによる編集）
+ * - replace: 履歴に積まずに置き換える（解析の進捗反映など）
+ * - reset: 値を置き換えて履歴を消去する（新しい手順書の生成開始時など）
+ */
+export const useUndoableState = <T,>(initial: T) => {
+  const [history, setHistory] = useState<History<T>>({ past: [], present: initial, future: [] });
+
+  const set = useCallback((next: T | ((prev: T) => T)) => {
+    setHistory(h => {
+      const value = typeof next === 'function' ? (next as (prev: T) => T)(h.present) : next;
+      if (Object.is(value, h.present)) return h;
+      return {
+        past: [...h.past, h.present].slice(-MAX_HISTORY),
+        present: value,
+        future: [],
+      };
+    });
+  }, []);
+
+  const replace = useCallback((next: T | ((prev: T) => T)) => {
+    setHistory(h => ({
+      ...h,
+      present: typeof next === 'function' ? (next as (prev: T) => T)(h.present) : next,
+    }));
+  }, []);
+
+  const reset = useCallback((value: T) => {
+    setHistory({ past: [], present: value, future: [] });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(h => {
+      if (h.past.length === 0) return h;
+      return {
+        past: h.past.slice(0, -1),
+        present: h.past[h.past.length - 1],
+        future: [h.present, ...h.future],
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(h => {
+      if (h.future.length === 0) return h;
+      return {
+        past: [...h.past, h.present],
+        present: h.future[0],
+        future: h.future.slice(1),
+      };
+    });
+  }, []);
+
+  return {
+    value: history.present,
+    set,
+    replace,
+    reset,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
@@ -0,0 +1,110 @@
+/**
+ * 対応言語のレジストリ（クライアント・サーバー共通）
+ * 言語コードは BCP-47 タグ。表示名・フォント・文字方向はすべてここで管理する
+ */
+
+/** 文字方向 */
+export type TextDirection = 'ltr' | 'rtl';
+
+export interface LanguageInfo {
+  /** BCP-47 言語タグ（例: 'ja', 'zh-TW', 'pt-BR'） */
+  code: string;
+  /** 英語での名称（AIへのプロンプトに使用） */
+  name: string;
+  /** その言語自身での名称（言語選択などの表示に使用） */
+  nativeLabel: string;
+  /** 文字方向 */
+  dir: TextDirection;
+  /** フォントのヒント */
+  fonts: {
+    /** CSS の font-family 候補（HTML 出力・画面表示用） */
+    css: string[];
+    /** PDF に埋め込むフォントの ID（同梱するフォントファイルは utils/pdfExport.ts で ID ごとに指定する） */
+    pdf: string;
+  };
+}
+
+/** 欧文・ベトナム語など、Noto Sans で表示できる言語のフォント */
+const LATIN_FONTS: LanguageInfo['fonts'] = {
+  css: ['Noto Sans', 'Segoe UI', 'Helvetica Neue', 'Arial'],
+  pdf: 'noto-sans',
+};
+
+/** 対応言語（言語選択の表示順） */
+export const LANGUAGES: LanguageInfo[] = [
+  {
+    code: 'ja', name: 'Japanese', nativeLabel: '日本語', dir: 'ltr',
+    fonts: { css: ['Noto Sans JP', 'Hiragino Sans', 'Yu Gothic', 'Meiryo'], pdf: 'noto-sans-jp' },
+  },
+  { code: 'en', name: 'English', nativeLabel: 'English', dir: 'ltr', fonts: LATIN_FONTS },
+  {
+    code: 'zh', name: 'Simplified Chinese', nativeLabel: '简体中文', dir: 'ltr',
+    fonts: { css: ['Noto Sans SC', 'PingFang SC', 'Microsoft YaHei'], pdf: 'noto-sans-sc' },
+  },
+  {
+    code: 'zh-TW', name: 'Traditional Chinese (Taiwan)', nativeLabel: '繁體中文', dir: 'ltr',
+    fonts: { css: ['Noto Sans TC', 'PingFang TC', 'Microsoft JhengHei'], pdf: 'noto-sans-tc' },
+  },
+  {
+    code: 'ko', name: 'Korean', nativeLabel: '한국어', dir: 'ltr',
+    fonts: { css: ['Noto Sans KR', 'Apple SD Gothic Neo', 'Malgun Gothic'], pdf: 'noto-sans-kr' },
+  },
+  { code: 'de', name: 'German', nativeLabel: 'Deutsch', dir: 'ltr', fonts: LATIN_FONTS },
+  { code: 'fr', name: 'French', nativeLabel: 'Français', dir: 'ltr', fonts: LATIN_FONTS },
+  { code: 'es', name: 'Spanish', nativeLabel: 'Español', dir: 'ltr', fonts: LATIN_FONTS },
+  { code: 'pt-BR', name: 'Portuguese (Brazil)', nativeLabel: 'Português (Brasil)', dir: 'ltr', fonts: LATIN_FONTS },
+  { code: 'vi', name: 'Vietnamese', nativeLabel: 'Tiếng Việt', dir: 'ltr', fonts: LATIN_FONTS },
+  {
+    code: 'th', name: 'Thai', nativeLabel: 'ไทย', dir: 'ltr',
+    fonts: { css: ['Noto Sans Thai', 'Leelawadee UI', 'Thonburi'], pdf: 'noto-sans-thai' },
+  },
+  {
+    code: 'ar', name: 'Arabic', nativeLabel: 'العربية', dir: 'rtl',
+    fonts: { css: ['Noto Sans Arabic', 'Segoe UI', 'Geeza Pro', 'Tahoma'], pdf: 'noto-sans-arabic' },
+  },
+  {
+    code: 'he', name: 'Hebrew', nativeLabel: 'עברית', dir: 'rtl',
+    fonts: { css: ['Noto Sans Hebrew', 'Segoe UI', 'Arial Hebrew'], pdf: 'noto-sans-hebrew' },
+  },
+];
+
+/** 大文字小文字を区別しない検索用（キーは小文字のコード） */
+const LANGUAGE_BY_LOWER_CODE = new Map(LANGUAGES.map(lang => [lang.code.toLowerCase(), lang]));
+
+/**
+ * 言語コードをレジストリの表記にそろえる（'JA' → 'ja'、'pt-br' → 'pt-BR'）
+ * 対応していない言語は undefined
+ */
+export const toCanonicalLanguageCode = (code: string): string | undefined =>
+  typeof code === 'string' ? LANGUAGE_BY_LOWER_CODE.get(code.toLowerCase())?.code : undefined;
+
+/**
+ * 言語コードが対応言語のレジストリの表記そのものかどうか
+ * 翻訳などのキーにそのまま使うため、大文字小文字の違う表記（'JA', 'pt-br'）は対応言語とみなさない
+ */
+export const isSupportedLanguage = (code: string): boolean =>
+  typeof code === 'string' && toCanonicalLanguageCode(code) === code;
+
+/**
+ * 言語の情報を取得する
+ * 未登録のコード（旧バージョンのプロジェクトなど）はコードをそのまま名称にした左横書きの言語として扱う
+ */
+export const getLanguage = (code: string): LanguageInfo =>
+  LANGUAGE_BY_LOWER_CODE.get(code.toLowerCase()) ?? {
+    code,
+    name: code,
+    nativeLabel: code,
+    dir: 'ltr',
+    fonts: LATIN_FONTS,
+  };
+
+/**
+ * 右横書き（RTL）の言語かどうか
+ */
+export const isRtl = (code: string): boolean => getLanguage(code).dir === 'rtl';
+
+/**
+ * CSS の font-family の値を返す（末尾に sans-serif を付ける）
+ */
+export const getCssFontFamily = (code: string): string =>
+  [...getLanguage(code).fonts.css.map(font => `'${font}'`), 'sans-serif'].join(', ');
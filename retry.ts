@@ -0,0 +1,89 @@
+/**
+ * 再試行とバックオフ（クライアント・サーバー共通）
+ * 一時的なエラー（レート制限・サーバーエラー）を、待ち時間を指数的に延ばしながら再試行する
+ */
+
+export interface RetryPolicy {
+  /** 最大試行回数（初回を含む） */
+  maxAttempts: number;
+  /** 1回目の再試行の基準待ち時間（ミリ秒） */
+  baseDelayMs: number;
+  /** 待ち時間の上限（ミリ秒） */
+  maxDelayMs: number;
+}
+
+export interface RetryOptions extends RetryPolicy {
+  /** 再試行するエラーかどうか */
+  isRetryable: (error: unknown) => boolean;
+  /** エラーが指定する待ち時間（Retry-After など。ミリ秒、指定がなければ undefined） */
+  getRetryAfter?: (error: unknown) => number | undefined;
+  /** 再試行の前に呼ばれる（ログ・表示用） */
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * 再試行までの待ち時間を計算する（指数バックオフ + フルジッター）
+ * 待ち時間が指定されていればそれ以上待つ（上限を超える場合も指定に従う）
+ *
+ * @param attempt - 失敗した試行の回数（1 から）
+ */
+export const computeBackoffDelay = (
+  attempt: number,
+  policy: Pick<RetryPolicy, 'baseDelayMs' | 'maxDelayMs'>,
+  retryAfterMs?: number,
+  random: () => number = Math.random
+): number => {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  const jittered = Math.round(random() * ceiling);
+  return retryAfterMs !== undefined ? Math.max(retryAfterMs, jittered) : jittered;
+};
+
+/**
+ * Retry-After ヘッダーの値（秒数または HTTP 日付）をミリ秒に変換する
+ */
+export const parseRetryAfter = (value: string | null | undefined, now: number = Date.now()): number | undefined => {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return Math.round(Number(trimmed) * 1000);
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+/**
+ * 指定時間待つ（中断されたら AbortError で reject）
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * 一時的なエラーを再試行しながら処理を実行する
+ * 再試行しないエラー・最後の試行のエラー・中断はそのまま reject する
+ */
+export const withRetry = async <T>(task: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    options.signal?.throwIfAborted();
+    try {
+      return await task(attempt);
+    } catch (error) {
+      if (options.signal?.aborted || attempt >= options.maxAttempts || !options.isRetryable(error)) throw error;
+      const delayMs = computeBackoffDelay(attempt, options, options.getRetryAfter?.(error));
+      options.onRetry?.(error, attempt, delayMs);
+      await sleep(delayMs, options.signal);
+    }
+  }
+};
@@ -1,15 +1,87 @@
 
-import { GeminiStepResponse } from "../types";
+import { AnalysisErrorBody, AnalysisErrorCode, GeminiStepResponse, ManualOverview, ManualRefinement, ManualTranslation, Step, Terminology } from "../types";
+import { RetryPolicy, parseRetryAfter, withRetry } from "../retry";
+
+/**
+ * 解析APIのエラー（サーバーが返したHTTPステータス・エラーコード・待ち時間を保持する）
+ */
+export class AnalysisApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code?: AnalysisErrorCode,
+    readonly missingLanguages?: string[],
+    /** Retry-After ヘッダーで指定された待ち時間（ミリ秒） */
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'AnalysisApiError';
+  }
+}
+
+/** 解析APIの再試行の設定（サーバー側の再試行で回復しなかった場合に、より長い間隔で再試行する） */
+export const CLIENT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 2000,
+  maxDelayMs: 30000,
+};
+
+/** 再試行するHTTPステータス（タイムアウト・レート制限・サーバーが一時的なエラーと判定したもの） */
+const RETRYABLE_STATUSES = new Set([408, 429, 503]);
+
+/**
+ * 再試行で回復する見込みのあるエラーかどうか
+ * タイムアウト・レート制限・一時的なエラー（503）・ネットワークエラーだけを再試行する
+ * 500（サーバー設定の不備・一時的でないAIサービスのエラー）と、サーバー側で再試行と補正の依頼を済ませた
+ * モデル出力の不備（502）は、同じリクエストを送り直しても回復しないため再試行しない
+ */
+export const isRetryableApiError = (error: unknown): boolean => {
+  if (error instanceof AnalysisApiError) {
+    return RETRYABLE_STATUSES.has(error.status);
+  }
+  return error instanceof TypeError; // fetch のネットワークエラー
+};
+
+/**
+ * 解析APIの呼び出しを再試行付きで実行する（Retry-After が指定されていればその時間以上待つ）
+ */
+export const withApiRetry = <T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> =>
+  withRetry(task, {
+    ...CLIENT_RETRY_POLICY,
+    isRetryable: isRetryableApiError,
+    getRetryAfter: (error) => error instanceof AnalysisApiError ? error.retryAfterMs : undefined,
+    onRetry: (error, attempt, delayMs) =>
+      console.warn(`API request failed (attempt ${attempt}); retrying in ${delayMs}ms`, error),
+    signal,
+  });
+
+/** エラーレスポンスを AnalysisApiError に変換する（ボディがJSONでなければコードなし） */
+async function toApiError(response: Response): Promise<AnalysisApiError> {
+  const errorData: Partial<AnalysisErrorBody> = await response.json().catch(() => ({}));
+  return new AnalysisApiError(
+    errorData.error || `API request failed: ${response.status}`,
+    response.status,
+    errorData.code,
+    errorData.missingLanguages,
+    parseRetryAfter(response.headers.get('Retry-After'))
+  );
+}
 
 /**
  * サーバーサイドAPIを経由してステップを解析
  * APIキーはサーバー側で管理され、クライアントには露出しない
+ * transcript には前のステップからこのステップまでに話されたナレーションを渡す
+ * terminology を渡すと用語集の訳語とスタイルガイドの文体で記述させる
+ * signal を渡すと中断可能（中断時は AbortError で reject）
  */
 export const analyzeStep = async (
   imageData: string,
   contextPrompt: string,
   languages: string[],
-  previousStep?: { title: string; description: string }
+  previousStep?: { title: string; description: string },
+  transcript?: string,
+  terminology?: Terminology,
+  signal?: AbortSignal
 ): Promise<GeminiStepResponse> => {
 
   // ローカル開発時とVercelデプロイ時で異なるエンドポイントを使用
@@ -26,15 +98,87 @@ export const analyzeStep = async (
       imageData,
       contextPrompt,
       languages,
-      previousStep
-    })
+      previousStep,
+      transcript,
+      terminology
+    }),
+    signal
   });
 
   if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new Error(errorData.error || `API request failed: ${response.status}`);
+    throw await toApiError(response);
   }
 
   const result = await response.json();
   return result as GeminiStepResponse;
 };
+
+/**
+ * サーバーサイドAPIを経由して手順書全体を見直す
+ * 重複・不要なステップの整理、タイトルの書き直し、手順書の概要を受け取る
+ * 画像は送らず、解析済みのテキストと操作のみを渡す
+ */
+export const refineManual = async (
+  steps: Step[],
+  contextPrompt: string,
+  languages: string[],
+  terminology?: Terminology,
+  signal?: AbortSignal
+): Promise<ManualRefinement> => {
+  const response = await fetch('/api/refine', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      contextPrompt,
+      languages,
+      terminology,
+      steps: steps.map(({ id, timestamp, translations, action }) => ({ id, timestamp, translations, action }))
+    }),
+    signal
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response);
+  }
+
+  return await response.json() as ManualRefinement;
+};
+
+/**
+ * サーバーサイドAPIを経由して既存の手順書を別の言語に翻訳する
+ * 画像は再解析せず、翻訳元の言語のタイトル・説明文だけを送って手順書全体をまとめて翻訳する
+ * 翻訳元の言語がないステップは送らない
+ */
+export const translateManual = async (
+  steps: Step[],
+  sourceLanguage: string,
+  targetLanguages: string[],
+  overview?: ManualOverview,
+  terminology?: Terminology,
+  signal?: AbortSignal
+): Promise<ManualTranslation> => {
+  const response = await fetch('/api/translate', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      sourceLanguage,
+      targetLanguages,
+      overview,
+      terminology,
+      steps: steps
+        .filter(step => step.translations[sourceLanguage])
+        .map(({ id, translations }) => ({ id, ...translations[sourceLanguage] }))
+    }),
+    signal
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response);
+  }
+
+  return await response.json() as ManualTranslation;
+};
@@ -0,0 +1,223 @@
+import { ProjectFile, ProjectSummary } from "../types";
+import { createClipId, migrateProject } from "../utils/projectFile";
+import { getClipIds } from "../utils/stepEditing";
+
+/**
+ * IndexedDB へのプロジェクト自動保存
+ * 一覧表示を軽くするため、本体（画像を含む）と概要を別ストアに保存する
+ * ステップのクリップは容量が大きいため Blob のまま別ストアに保存し、ステップには ID だけを持たせる
+ */
+
+const DB_NAME = 'auto-manual-creator';
+const DB_VERSION = 2;
+const PROJECT_STORE = 'projects';
+const SUMMARY_STORE = 'projectSummaries';
+const CLIP_STORE = 'clips';
+
+/** クリップのストアのレコード */
+interface ClipRecord {
+  id: string;
+  projectId: string;
+  blob: Blob;
+}
+
+/** 最近のプロジェクトとして保持する件数（超えた分は古い順に削除） */
+const MAX_RECENT_PROJECTS = 10;
+
+/** サムネイルの幅（px） */
+const THUMBNAIL_WIDTH = 240;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECT_STORE)) {
+          db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(SUMMARY_STORE)) {
+          db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(CLIP_STORE)) {
+          db.createObjectStore(CLIP_STORE, { keyPath: 'id' }).createIndex('projectId', 'projectId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function waitForTransaction(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * 先頭ステップの画像から一覧表示用の縮小画像を作る
+ */
+function createThumbnail(dataUrl: string): Promise<string | undefined> {
+  return new Promise((resolve) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = THUMBNAIL_WIDTH;
+      canvas.height = Math.round(img.height * (THUMBNAIL_WIDTH / img.width));
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return resolve(undefined);
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', 0.7));
+    };
+    img.onerror = () => resolve(undefined);
+    img.src = dataUrl;
+  });
+}
+
+/**
+ * 最近のプロジェクト一覧（新しい順）
+ */
+export const listRecentProjects = async (): Promise<ProjectSummary[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(SUMMARY_STORE, 'readonly');
+  const summaries = await promisifyRequest<ProjectSummary[]>(tx.objectStore(SUMMARY_STORE).getAll());
+  return summaries.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+};
+
+/**
+ * プロジェクトを保存（同じIDがあれば上書き）
+ * 保存件数が上限を超えた場合は古いプロジェクトから削除する
+ */
+export const saveProject = async (project: ProjectFile): Promise<void> => {
+  const firstImage = project.manual.steps[0]?.image;
+  const summary: ProjectSummary = {
+    id: project.id,
+    title: project.manual.title,
+    videoName: project.videoName,
+    savedAt: project.savedAt,
+    stepCount: project.manual.steps.length,
+    thumbnail: firstImage ? await createThumbnail(firstImage) : undefined,
+  };
+
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECT_STORE, SUMMARY_STORE], 'readwrite');
+  tx.objectStore(PROJECT_STORE).put(project);
+  tx.objectStore(SUMMARY_STORE).put(summary);
+  await waitForTransaction(tx);
+
+  const recent = await listRecentProjects();
+  for (const old of recent.slice(MAX_RECENT_PROJECTS)) {
+    await deleteProject(old.id);
+  }
+};
+
+/**
+ * 保存済みのプロジェクトを読み込む（古い形式は現在のバージョンに変換する）
+ */
+export const loadProject = async (id: string): Promise<ProjectFile | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction(PROJECT_STORE, 'readonly');
+  const data = await promisifyRequest(tx.objectStore(PROJECT_STORE).get(id));
+  return data ? storeProjectClips(migrateProject(data)) : null;
+};
+
+/**
+ * 保存済みのプロジェクトを削除（プロジェクトのクリップも削除する）
+ */
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECT_STORE, SUMMARY_STORE, CLIP_STORE], 'readwrite');
+  tx.objectStore(PROJECT_STORE).delete(id);
+  tx.objectStore(SUMMARY_STORE).delete(id);
+  const clipStore = tx.objectStore(CLIP_STORE);
+  const clipIds = await promisifyRequest(clipStore.index('projectId').getAllKeys(id));
+  clipIds.forEach(clipId => clipStore.delete(clipId));
+  await waitForTransaction(tx);
+};
+
+/**
+ * クリップを保存し、ステップから参照する ID を返す
+ */
+export const saveClip = async (projectId: string, blob: Blob): Promise<string> => {
+  const record: ClipRecord = { id: createClipId(), projectId, blob };
+  const db = await openDatabase();
+  const tx = db.transaction(CLIP_STORE, 'readwrite');
+  tx.objectStore(CLIP_STORE).put(record);
+  await waitForTransaction(tx);
+  return record.id;
+};
+
+/**
+ * クリップを読み込む（見つからない場合は null）
+ */
+export const loadClip = async (id: string): Promise<Blob | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction(CLIP_STORE, 'readonly');
+  const record = await promisifyRequest<ClipRecord | undefined>(tx.objectStore(CLIP_STORE).get(id));
+  return record?.blob ?? null;
+};
+
+/**
+ * プロジェクトファイルや単一HTMLに埋め込むため、ステップのクリップをデータURLにする
+ * 見つからないクリップは含めない
+ *
+ * @returns blobId → データURL
+ */
+export const loadClipDataUrls = async (ids: string[]): Promise<Record<string, string>> => {
+  const entries = await Promise.all(ids.map(async id => {
+    const blob = await loadClip(id);
+    return blob ? [id, await blobToDataUrl(blob)] as const : null;
+  }));
+  return Object.fromEntries(entries.filter(entry => entry !== null));
+};
+
+/**
+ * 開くプロジェクトのクリップを IndexedDB にそろえる
+ * 埋め込まれたクリップ（書き出したプロジェクトファイル）を保存して clips を取り除き、
+ * どのステップからも参照されていないクリップ（作り直し・削除の前のもの）を削除する
+ * 元に戻す履歴は開いた時点で空になるため、ここで削除しても参照が切れることはない
+ */
+export const storeProjectClips = async (project: ProjectFile): Promise<ProjectFile> => {
+  const { clips = {}, ...rest } = project;
+  const referenced = new Set(getClipIds(project.manual.steps));
+  const blobs = await Promise.all(
+    Object.entries(clips).map(async ([id, dataUrl]) => ({ id, blob: await (await fetch(dataUrl)).blob() }))
+  );
+
+  const db = await openDatabase();
+  const tx = db.transaction(CLIP_STORE, 'readwrite');
+  const clipStore = tx.objectStore(CLIP_STORE);
+  for (const { id, blob } of blobs) {
+    const record: ClipRecord = { id, projectId: project.id, blob };
+    clipStore.put(record);
+  }
+  const storedIds = await promisifyRequest(clipStore.index('projectId').getAllKeys(project.id));
+  storedIds.filter(id => !referenced.has(String(id))).forEach(id => clipStore.delete(id));
+  await waitForTransaction(tx);
+  return rest;
+};
@@ -4,45 +4,325 @@ export interface Translation {
   description: string;
 }
 
+/** ステップの解析状態 */
+export type StepStatus = 'pending' | 'analyzing' | 'done' | 'error';
+
+/** アノテーションの種類 */
+export type AnnotationType = 'rect' | 'arrow' | 'badge' | 'ellipse' | 'text' | 'keys' | 'blur';
+
+/**
+ * 画像上のアノテーション（画像には焼き込まず、表示・出力時に描画する）
+ * box は [ymin, xmin, ymax, xmax] (0-1000)。arrow のみ [y1, x1, y2, x2]（始点→終点）として扱う
+ */
+export interface Annotation {
+  id: string;
+  type: AnnotationType;
+  box: [number, number, number, number];
+  /** rect: ラベル, badge: 番号, text: 本文, keys: "+" 区切りのキー（例: "Ctrl+S"） */
+  label?: string;
+  /** 線・塗りの色（省略時は赤） */
+  color?: string;
+}
+
+/** ステップで行われた操作の種類 */
+export type ActionType = 'click' | 'double_click' | 'right_click' | 'type' | 'drag' | 'scroll' | 'shortcut' | 'wait';
+
+/** 操作対象の役割（target: 通常の操作対象, source / destination: ドラッグ元 / ドロップ先） */
+export type TargetRole = 'target' | 'source' | 'destination';
+
+/** スクロール方向 */
+export type ScrollDirection = 'up' | 'down' | 'left' | 'right';
+
+/** 操作対象の領域 */
+export interface ActionTarget {
+  role: TargetRole;
+  box: [number, number, number, number]; // [ymin, xmin, ymax, xmax] 0-1000
+}
+
+/** ステップで行われた操作 */
+export interface StepAction {
+  type: ActionType;
+  targets: ActionTarget[];
+  /** type: 入力した文字列 */
+  text?: string;
+  /** shortcut: 押したキー（例: ["Ctrl", "S"]） */
+  keys?: string[];
+  /** scroll: スクロール方向 */
+  direction?: ScrollDirection;
+}
+
+/** ステップのクリップ形式 */
+export type ClipFormat = 'gif' | 'webm';
+
+/** ステップに対応する元動画の短いクリップ（アノテーションを焼き込み済み） */
+export interface StepClip {
+  format: ClipFormat;
+  /** 元動画上の開始・終了時刻（秒） */
+  start: number;
+  end: number;
+  /** クリップ本体（Blob）の ID。本体は IndexedDB に別保存し、プロジェクトファイルの書き出し時だけ clips に埋め込む */
+  blobId: string;
+}
+
+/**
+ * 解析APIのエラーコード（クライアントはこれを見てステップごとに表示を切り替える）
+ * - invalid_request: 必須パラメーターの不足・形式の誤り
+ * - unsupported_language: 対応していない言語コード
+ * - invalid_json: モデルの出力をJSONとして解析できない
+ * - invalid_response: モデルの出力が期待する形式でない
+ * - missing_languages: 再試行しても一部の言語のタイトルが得られない
+ * - config_error: APIキー未設定などサーバー設定の不備
+ * - rate_limited: モデルAPIのレート制限（Retry-After ヘッダーの時間を待って再試行できる）
+ * - provider_error: モデルAPIの呼び出しに失敗
+ */
+export type AnalysisErrorCode =
+  | 'invalid_request'
+  | 'unsupported_language'
+  | 'invalid_json'
+  | 'invalid_response'
+  | 'missing_languages'
+  | 'config_error'
+  | 'rate_limited'
+  | 'provider_error';
+
+/** 解析APIのエラーレスポンス */
+export interface AnalysisErrorBody {
+  error: string;
+  code: AnalysisErrorCode;
+  details?: string;
+  /** missing_languages の場合に得られなかった言語 */
+  missingLanguages?: string[];
+}
+
 export interface Step {
   id: string;
   timestamp: number;
   translations: Record<string, Translation>; // key: language code (e.g., 'ja', 'en')
   image: string; // Base64
   boundingBox?: [number, number, number, number]; // [ymin, xmin, ymax, xmax] 0-1000
+  action?: StepAction; // AIが推定した操作の種類と対象
+  annotations?: Annotation[]; // 省略時は action（なければ boundingBox）から生成
+  status?: StepStatus; // 省略時は 'done'
+  error?: string; // 解析失敗時のエラーメッセージ
+  errorCode?: AnalysisErrorCode; // 解析失敗時のエラーコード（サーバーから返らなかった場合は省略）
+  clip?: StepClip; // 操作の様子を示す短いクリップ（任意）
+}
+
+/** 手順書全体の概要（全体の見直しで生成） */
+export interface ManualOverview {
+  title: string;
+  /** 手順書の目的 */
+  summary: string;
+  /** 前提条件（必要な権限・事前の準備など） */
+  prerequisites: string[];
 }
 
 export interface Manual {
   title: string;
   steps: Step[];
+  overview?: Record<string, ManualOverview>; // key: language code
+}
+
+/** 解析APIが返す操作（座標は box_2d 形式） */
+export interface GeminiStepAction {
+  type: ActionType;
+  targets?: { role: TargetRole; box_2d: [number, number, number, number] }[];
+  text?: string;
+  keys?: string[];
+  direction?: ScrollDirection;
 }
 
 export interface GeminiStepResponse {
   translations: Record<string, Translation>;
+  /** 主な操作対象（action.targets の先頭と同じ。旧形式との互換用） */
   box_2d?: [number, number, number, number];
+  action?: GeminiStepAction;
+}
+
+/** 全体の見直しでのステップの扱い（keep: 残す, merge: 別のステップに統合, drop: 意味のある操作がないため削除） */
+export type RefineDecision = 'keep' | 'merge' | 'drop';
+
+/** 全体の見直し結果（ステップ1件分） */
+export interface RefinedStep {
+  id: string;
+  decision: RefineDecision;
+  /** merge: 統合先のステップID */
+  mergeInto?: string;
+  /** merge / drop の理由 */
+  reason?: string;
+  /** 書き直したタイトル・説明（言語コード → 翻訳。省略時は変更なし） */
+  translations?: Record<string, Translation>;
+}
+
+/** 手順書全体の見直し結果 */
+export interface ManualRefinement {
+  overview: Record<string, ManualOverview>;
+  steps: RefinedStep[];
+}
+
+/** 既存の手順書を別の言語に翻訳した結果 */
+export interface ManualTranslation {
+  /** ステップごとの追加言語の翻訳（言語コード → 翻訳） */
+  steps: { id: string; translations: Record<string, Translation> }[];
+  /** 手順書の概要の翻訳（元の概要がある場合のみ） */
+  overview?: Record<string, ManualOverview>;
 }
 
 /** フレーム抽出モード */
 export type ExtractionMode = 'auto' | 'manual';
 
+/**
+ * フレーム解析の進め方
+ * - sequential: 1件ずつ順に解析し、常に直前のステップの結果を文脈として渡す
+ * - parallel: 並列に解析する（解析済みのステップ以外は文脈を渡さない）
+ * - two-pass: 並列に解析した後、直前のステップの結果を文脈にして並列に解析し直す
+ */
+export type AnalysisMode = 'sequential' | 'parallel' | 'two-pass';
+
 /** フレーム抽出オプション */
 export interface ExtractOptions {
   /** 抽出モード: auto=シーン変化検出, manual=等間隔 */
   mode: ExtractionMode;
   /** 最大フレーム数（デフォルト: 10） */
   maxFrames: number;
-  /** シーン変化検出の感度 0-1（デフォルト: 0.15） */
-  sensitivity: number;
+  /** シーン変化検出の閾値 0-1（変化タイルの割合）。'auto' でスコア分布から自動算出（デフォルト: 'auto'） */
+  sensitivity: number | 'auto';
+  /** シーン変化スキャンの間隔（秒, デフォルト: 0.5）。短い動画は細かく、長い動画は粗く */
+  scanInterval?: number;
+  /** シーン変化検出で無視する領域 [ymin, xmin, ymax, xmax] (0-1000)（時計・カーソル位置など） */
+  ignoreRegions?: [number, number, number, number][];
+  /** 変化後に画面が安定したとみなすまでの継続時間（秒, 0で無効, デフォルト: 0.5） */
+  settleDwell?: number;
+  /** 安定判定に使う変化スコアの上限（これ未満なら静止とみなす, デフォルト: スキャンで測った雑音の水準） */
+  settleThreshold?: number;
   /** 進捗コールバック（0-100） */
   onProgress?: (progress: number) => void;
+  /** 中断シグナル（中断時は AbortError で reject） */
+  signal?: AbortSignal;
 }
 
 /** 抽出されたフレーム */
 export interface ExtractedFrame {
-  /** フレームのタイムスタンプ（秒） */
+  /** フレームのタイムスタンプ（秒）。変化後に画面が安定した時刻 */
   timestamp: number;
+  /** シーン変化を検出した元の時刻（秒）。等間隔モードでは timestamp と同じ */
+  changeTimestamp: number;
   /** Base64エンコードされた画像データ */
   dataUrl: string;
   /** シーン変化スコア（0-1, 高いほど大きな変化） */
   changeScore: number;
 }
+
+/** シーン変化スコアのサンプル（スキャン1回分） */
+export interface ChangeSample {
+  /** サンプルのタイムスタンプ（秒） */
+  timestamp: number;
+  /** 直前のサンプルからの変化スコア（0-1） */
+  changeScore: number;
+}
+
+/** シーン変化スキャンの結果 */
+export interface SceneScan {
+  /** 動画の長さ（秒） */
+  duration: number;
+  /** スキャン間隔（秒） */
+  scanInterval: number;
+  /** サンプルごとの変化スコア系列 */
+  samples: ChangeSample[];
+  /** スコア分布から算出した自動閾値 */
+  autoThreshold: number;
+  /** スコア分布の雑音の水準から算出した安定判定の閾値 */
+  settleThreshold: number;
+}
+
+/** 字幕・文字起こしの1区間 */
+export interface TranscriptCue {
+  /** 開始・終了時刻（秒） */
+  start: number;
+  end: number;
+  text: string;
+}
+
+/** 動画に添付した字幕・文字起こし */
+export interface Transcript {
+  /** 読み込んだファイル名 */
+  name: string;
+  cues: TranscriptCue[];
+}
+
+/** 用語集の1項目 */
+export interface GlossaryEntry {
+  /** 言語コード → 正式な訳語（例: { en: 'Save', ja: '保存' }） */
+  terms: Record<string, string>;
+  /** 言語コード → 使ってはいけない表記（例: { ja: ['セーブ'] }） */
+  forbidden?: Record<string, string[]>;
+  /** 用語の補足（訳し分けの条件など） */
+  note?: string;
+}
+
+/** プロジェクトの用語集とスタイルガイド（解析・見直し・翻訳のプロンプトに含める） */
+export interface Terminology {
+  glossary: GlossaryEntry[];
+  /** 言語コード → 文体の規則（例: { ja: '敬体（です・ます）で書く', en: 'Use the imperative mood.' }） */
+  styleGuide: Record<string, string>;
+}
+
+/** 用語集の違反 */
+export interface GlossaryIssue {
+  stepId: string;
+  lang: string;
+  field: 'title' | 'description';
+  /** 正式な訳語 */
+  expected: string;
+  /** 見つかった使ってはいけない表記（正式な訳語が使われていないだけの場合は undefined） */
+  found?: string;
+}
+
+/** プロジェクトに保存する抽出設定 */
+export interface ProjectSettings {
+  mode: ExtractionMode;
+  maxFrames: number;
+  sensitivity: number | 'auto';
+  scanInterval: number;
+  settleDwell: number;
+  ignoreRegions: [number, number, number, number][];
+  analysisMode: AnalysisMode;
+  /** 解析APIの同時リクエスト数（sequential では 1） */
+  concurrency: number;
+}
+
+/**
+ * プロジェクトファイル（手順書・画像・アノテーション・言語・抽出設定をまとめて保存）
+ * version を上げる場合は utils/projectFile.ts にマイグレーションを追加する
+ */
+export interface ProjectFile {
+  format: 'auto-manual-project';
+  version: number;
+  id: string;
+  /** 保存日時（ISO 8601） */
+  savedAt: string;
+  /** 元動画のファイル名（動画そのものは含まない） */
+  videoName?: string;
+  /** 元動画の長さ（秒）。字幕・チャプターの最後のキューの終わりに使う */
+  videoDuration?: number;
+  manual: Manual;
+  languages: string[];
+  settings: ProjectSettings;
+  /** 解析の文脈に使う字幕・文字起こし（任意） */
+  transcript?: Transcript;
+  /** 用語集とスタイルガイド（任意） */
+  terminology?: Terminology;
+  /** 埋め込んだクリップ（blobId → データURL）。書き出したファイルにだけ含め、読み込み時に IndexedDB へ移す */
+  clips?: Record<string, string>;
+}
+
+/** 最近のプロジェクト一覧に表示する概要 */
+export interface ProjectSummary {
+  id: string;
+  title: string;
+  videoName?: string;
+  savedAt: string;
+  stepCount: number;
+  /** 先頭ステップの縮小画像 */
+  thumbnail?: string;
+}
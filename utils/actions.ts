@@ -0,0 +1,40 @@
+import { GeminiStepAction, ScrollDirection, StepAction } from '../types';
+import { orderAnnotationBox } from './annotations';
+import { getLabels } from './labels';
+
+/**
+ * ステップの操作（クリック・入力・ドラッグなど）の変換と表示用テキスト
+ */
+
+/** スクロール方向の記号 */
+const DIRECTION_ARROWS: Record<ScrollDirection, string> = { up: '↑', down: '↓', left: '←', right: '→' };
+
+/**
+ * 解析APIの操作（box_2d 形式）をステップの操作に変換する
+ * 座標が4要素でない対象は捨て、残りは 0-1000 に正規化する
+ */
+export const toStepAction = (action: GeminiStepAction): StepAction => ({
+  type: action.type,
+  targets: (action.targets ?? [])
+    .filter(t => Array.isArray(t.box_2d) && t.box_2d.length === 4)
+    .map(t => ({ role: t.role, box: orderAnnotationBox(t.box_2d) })),
+  text: action.text || undefined,
+  keys: action.keys?.length ? action.keys : undefined,
+  direction: action.direction,
+});
+
+/**
+ * キーの並びを表示用の文字列にする（例: "Ctrl + S"）
+ */
+export const formatKeys = (keys: string[]): string => keys.join(' + ');
+
+/**
+ * 操作を1行の説明にする（例: "ショートカット: Ctrl + S", "入力: “sample”"）
+ */
+export const describeAction = (action: StepAction, lang: string): string => {
+  const label = getLabels(lang).actions[action.type];
+  if (action.type === 'shortcut' && action.keys) return `${label}: ${formatKeys(action.keys)}`;
+  if (action.type === 'type' && action.text) return `${label}: “${action.text}”`;
+  if (action.type === 'scroll' && action.direction) return `${label} ${DIRECTION_ARROWS[action.direction]}`;
+  return label;
+};
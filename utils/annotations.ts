@@ -0,0 +1,384 @@
+import { Annotation, AnnotationType, ScrollDirection, Step, StepAction } from '../types';
+
+/**
+ * ステップ画像のアノテーション（赤枠・矢印・番号バッジなど）の生成と描画
+ * 座標はすべて 0-1000 の正規化座標で保持し、描画時のキャンバス解像度に合わせて拡大する
+ */
+
+/** 既定のアノテーション色 */
+export const ANNOTATION_COLOR = '#ef4444';
+
+/** 入力文字列をラベルに含める最大文字数 */
+const MAX_TYPED_LABEL_LENGTH = 30;
+
+/** キーボードバッジの高さと1文字あたりの幅の目安（0-1000） */
+const KEYS_BADGE = { height: 60, charWidth: 28, keyPadding: 40 };
+
+/** スクロール矢印の長さ（操作対象の辺に対する割合） */
+const SCROLL_ARROW_RATIO = 0.6;
+
+/** モザイク（ぼかし）のブロック数（領域の短辺あたり） */
+const BLUR_BLOCKS = 8;
+
+/**
+ * アノテーションIDを生成する
+ */
+export const createAnnotationId = (): string => Math.random().toString(36).substr(2, 9);
+
+/**
+ * 編集中のアノテーションの領域 [ymin, xmin, ymax, xmax] の大小関係をそろえ、0-1000 に収める
+ * （AIの応答の検証用の analysis/validate.ts の normalizeBox と異なり、面積のない領域もそのまま返す）
+ */
+export const orderAnnotationBox = (
+  [y1, x1, y2, x2]: [number, number, number, number]
+): [number, number, number, number] => {
+  const clamp = (v: number) => Math.min(1000, Math.max(0, v));
+  return [clamp(Math.min(y1, y2)), clamp(Math.min(x1, x2)), clamp(Math.max(y1, y2)), clamp(Math.max(x1, x2))];
+};
+
+/**
+ * 新しいアノテーションを生成する
+ */
+export const createAnnotation = (
+  type: AnnotationType,
+  box: [number, number, number, number],
+  label?: string
+): Annotation => ({
+  id: createAnnotationId(),
+  type,
+  box: type === 'arrow' ? box : orderAnnotationBox(box),
+  label,
+});
+
+/** 領域の中心 [y, x] */
+function boxCenter([y1, x1, y2, x2]: [number, number, number, number]): [number, number] {
+  return [(y1 + y2) / 2, (x1 + x2) / 2];
+}
+
+/**
+ * スクロール方向を示す矢印の box（[y1, x1, y2, x2]）を領域の中央に作る
+ */
+function scrollArrowBox(
+  box: [number, number, number, number],
+  direction: ScrollDirection
+): [number, number, number, number] {
+  const [cy, cx] = boxCenter(box);
+  const dy = ((box[2] - box[0]) * SCROLL_ARROW_RATIO) / 2;
+  const dx = ((box[3] - box[1]) * SCROLL_ARROW_RATIO) / 2;
+  switch (direction) {
+    case 'up': return [cy + dy, cx, cy - dy, cx];
+    case 'down': return [cy - dy, cx, cy + dy, cx];
+    case 'left': return [cy, cx + dx, cy, cx - dx];
+    case 'right': return [cy, cx - dx, cy, cx + dx];
+  }
+}
+
+/**
+ * キーボードバッジの box を作る（操作対象があればその下、なければ画面下部中央）
+ */
+function keysBadgeBox(label: string, near?: [number, number, number, number]): [number, number, number, number] {
+  const keyCount = label.split('+').length;
+  const width = Math.min(1000, label.length * KEYS_BADGE.charWidth + keyCount * KEYS_BADGE.keyPadding);
+  const [cy, cx] = near ? [near[2] + KEYS_BADGE.height, boxCenter(near)[1]] : [880, 500];
+  const top = Math.min(1000 - KEYS_BADGE.height, Math.max(0, cy - KEYS_BADGE.height / 2));
+  const left = Math.min(1000 - width, Math.max(0, cx - width / 2));
+  return [top, left, top + KEYS_BADGE.height, left + width];
+}
+
+/**
+ * 操作の種類に応じたアノテーションを生成する
+ * - クリック系・入力・待機: 操作対象の枠（入力は入力文字列のラベルを添える）
+ * - ドラッグ: ドラッグ元とドロップ先の枠と、その間の矢印
+ * - スクロール: 枠と、スクロール方向の矢印
+ * - ショートカット: 押したキーのキーボードバッジ
+ */
+export const getActionAnnotations = (stepId: string, action: StepAction): Annotation[] => {
+  const annotations: Annotation[] = [];
+  const add = (type: AnnotationType, box: [number, number, number, number], label?: string) =>
+    annotations.push({ id: `${stepId}-action-${annotations.length}`, type, box, label });
+
+  // 画像は言語をまたいで共有するため、操作の種類は文字で焼き込まず（説明文に記載する）、入力文字列だけを添える
+  const label = action.type === 'type' && action.text
+    ? `"${action.text.length > MAX_TYPED_LABEL_LENGTH ? `${action.text.slice(0, MAX_TYPED_LABEL_LENGTH)}…` : action.text}"`
+    : undefined;
+
+  if (action.type === 'drag') {
+    const source = action.targets.find(t => t.role === 'source') ?? action.targets[0];
+    const destination = action.targets.find(t => t.role === 'destination' && t !== source)
+      ?? action.targets.find(t => t !== source);
+    if (source) add('rect', source.box);
+    if (destination) add('rect', destination.box);
+    if (source && destination) {
+      const [sy, sx] = boxCenter(source.box);
+      const [dy, dx] = boxCenter(destination.box);
+      add('arrow', [sy, sx, dy, dx]);
+    }
+    return annotations;
+  }
+
+  for (const target of action.targets) {
+    add('rect', target.box, label);
+    if (action.type === 'scroll' && action.direction) {
+      add('arrow', scrollArrowBox(target.box, action.direction));
+    }
+  }
+
+  if (action.type === 'shortcut' && action.keys?.length) {
+    const keys = action.keys.join('+');
+    add('keys', keysBadgeBox(keys, action.targets[0]?.box), keys);
+  }
+  return annotations;
+};
+
+/**
+ * ステップのアノテーション一覧を取得する
+ * 未編集のステップは、AIが返した操作（なければ boundingBox の赤枠1つ）から生成する
+ */
+export const getStepAnnotations = (step: Step): Annotation[] => {
+  if (step.annotations) return step.annotations;
+  const fromAction = step.action ? getActionAnnotations(step.id, step.action) : [];
+  if (fromAction.length > 0) return fromAction;
+  if (!step.boundingBox) return [];
+  return [{ id: `${step.id}-box`, type: 'rect', box: orderAnnotationBox(step.boundingBox) }];
+};
+
+/**
+ * ステップのアノテーションがユーザーの編集によるものか
+ * 編集せずに保存された（操作から生成したものと同じ）アノテーションは編集とみなさない
+ */
+export const hasEditedAnnotations = (step: Step): boolean =>
+  !!step.annotations
+  && JSON.stringify(step.annotations) !== JSON.stringify(getStepAnnotations({ ...step, annotations: undefined }));
+
+/**
+ * 矢印を描画する（線＋終点の矢じり）
+ */
+function drawArrow(
+  ctx: CanvasRenderingContext2D,
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+  headSize: number
+) {
+  const angle = Math.atan2(y2 - y1, x2 - x1);
+  ctx.beginPath();
+  ctx.moveTo(x1, y1);
+  ctx.lineTo(x2 - Math.cos(angle) * headSize * 0.5, y2 - Math.sin(angle) * headSize * 0.5);
+  ctx.stroke();
+
+  ctx.beginPath();
+  ctx.moveTo(x2, y2);
+  ctx.lineTo(x2 - headSize * Math.cos(angle - Math.PI / 6), y2 - headSize * Math.sin(angle - Math.PI / 6));
+  ctx.lineTo(x2 - headSize * Math.cos(angle + Math.PI / 6), y2 - headSize * Math.sin(angle + Math.PI / 6));
+  ctx.closePath();
+  ctx.fill();
+}
+
+/**
+ * キーボードバッジを描画する（"+" 区切りのキーをキートップ風に並べる）
+ */
+function drawKeys(
+  ctx: CanvasRenderingContext2D,
+  label: string,
+  x: number,
+  y: number,
+  h: number,
+  color: string
+) {
+  const keys = label.split('+').map(k => k.trim()).filter(Boolean);
+  const fontSize = h * 0.5;
+  const padding = fontSize * 0.5;
+  const gap = fontSize * 0.8;
+  ctx.font = `bold ${Math.round(fontSize)}px sans-serif`;
+  ctx.textBaseline = 'middle';
+  ctx.textAlign = 'center';
+
+  let left = x;
+  keys.forEach((key, i) => {
+    if (i > 0) {
+      ctx.fillStyle = color;
+      ctx.fillText('+', left + gap / 2, y + h / 2);
+      left += gap;
+    }
+    const keyWidth = Math.max(h, ctx.measureText(key).width + padding * 2);
+    ctx.beginPath();
+    ctx.roundRect(left, y, keyWidth, h, h * 0.2);
+    ctx.fillStyle = '#ffffff';
+    ctx.fill();
+    ctx.stroke();
+    ctx.fillStyle = '#1e293b';
+    ctx.fillText(key, left + keyWidth / 2, y + h / 2);
+    left += keyWidth;
+  });
+}
+
+/**
+ * 領域をモザイク処理する（個人情報などの秘匿用）
+ */
+function pixelateRegion(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  w: number,
+  h: number
+) {
+  if (w < 1 || h < 1) return;
+  const block = Math.max(1, Math.min(w, h) / BLUR_BLOCKS);
+  const small = document.createElement('canvas');
+  small.width = Math.max(1, Math.round(w / block));
+  small.height = Math.max(1, Math.round(h / block));
+  const smallCtx = small.getContext('2d');
+  if (!smallCtx) return;
+
+  smallCtx.drawImage(ctx.canvas, x, y, w, h, 0, 0, small.width, small.height);
+  const smoothing = ctx.imageSmoothingEnabled;
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(small, 0, 0, small.width, small.height, x, y, w, h);
+  ctx.imageSmoothingEnabled = smoothing;
+}
+
+/**
+ * キャンバス上にアノテーションを描画する（画像は描画済みであること）
+ * 線幅・文字サイズはキャンバス解像度に比例するため、任意の出力解像度で同じ見た目になる
+ */
+export const drawAnnotations = (canvas: HTMLCanvasElement, annotations: Annotation[]) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  const width = canvas.width;
+  const height = canvas.height;
+  // 1000px幅あたりの基準単位
+  const unit = Math.max(width, height) / 1000;
+
+  // モザイクは他の図形より先に適用（図形がぼかされないように）
+  const ordered = [
+    ...annotations.filter(a => a.type === 'blur'),
+    ...annotations.filter(a => a.type !== 'blur'),
+  ];
+
+  for (const annotation of ordered) {
+    const [b0, b1, b2, b3] = annotation.box;
+    const color = annotation.color ?? ANNOTATION_COLOR;
+    const x = (b1 / 1000) * width;
+    const y = (b0 / 1000) * height;
+    const w = ((b3 - b1) / 1000) * width;
+    const h = ((b2 - b0) / 1000) * height;
+
+    ctx.save();
+    ctx.strokeStyle = color;
+    ctx.fillStyle = color;
+    ctx.lineWidth = Math.max(2, 3 * unit);
+    ctx.lineJoin = 'round';
+    ctx.lineCap = 'round';
+
+    switch (annotation.type) {
+      case 'rect': {
+        ctx.strokeRect(x, y, w, h);
+        if (annotation.label) {
+          ctx.font = `bold ${Math.round(12 * unit)}px sans-serif`;
+          const fontSize = 12 * unit;
+          ctx.fillText(annotation.label, x, y > fontSize + 4 * unit ? y - 4 * unit : y + h + fontSize + 4 * unit);
+        }
+        break;
+      }
+      case 'ellipse': {
+        ctx.beginPath();
+        ctx.ellipse(x + w / 2, y + h / 2, Math.abs(w / 2), Math.abs(h / 2), 0, 0, Math.PI * 2);
+        ctx.stroke();
+        break;
+      }
+      case 'arrow': {
+        // arrow の box は [y1, x1, y2, x2]（始点→終点）
+        drawArrow(ctx, x, y, x + w, y + h, 14 * unit);
+        break;
+      }
+      case 'badge': {
+        const radius = Math.max(8 * unit, Math.min(Math.abs(w), Math.abs(h)) / 2);
+        const cx = x + w / 2;
+        const cy = y + h / 2;
+        ctx.beginPath();
+        ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.fillStyle = '#ffffff';
+        ctx.font = `bold ${Math.round(radius * 1.1)}px sans-serif`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(annotation.label ?? '', cx, cy);
+        break;
+      }
+      case 'text': {
+        const fontSize = Math.max(10 * unit, Math.abs(h) * 0.7);
+        ctx.font = `bold ${Math.round(fontSize)}px sans-serif`;
+        ctx.textBaseline = 'middle';
+        const text = annotation.label ?? '';
+        const padding = fontSize * 0.3;
+        const textWidth = ctx.measureText(text).width;
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+        ctx.fillRect(x, y, textWidth + padding * 2, Math.abs(h));
+        ctx.fillStyle = color;
+        ctx.fillText(text, x + padding, y + Math.abs(h) / 2);
+        break;
+      }
+      case 'keys': {
+        drawKeys(ctx, annotation.label ?? '', x, y, Math.abs(h), color);
+        break;
+      }
+      case 'blur': {
+        pixelateRegion(ctx, x, y, w, h);
+        break;
+      }
+    }
+
+    ctx.restore();
+  }
+};
+
+/**
+ * ステップの画像とアノテーションを新しいキャンバスに描画する（各種エクスポート用）
+ *
+ * @param step - 対象ステップ
+ * @param scale - 元画像に対する拡大率（既定: 1）
+ * @param annotations - 描画するアノテーション（既定: ステップのアノテーションすべて）
+ */
+export const renderStepCanvas = (
+  step: Step,
+  scale: number = 1,
+  annotations: Annotation[] = getStepAnnotations(step)
+): Promise<HTMLCanvasElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(img.width * scale);
+      canvas.height = Math.round(img.height * scale);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Canvas 2D context is not available'));
+        return;
+      }
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      drawAnnotations(canvas, annotations);
+      resolve(canvas);
+    };
+    img.onerror = () => reject(new Error('ステップ画像の読み込みに失敗しました'));
+    img.src = step.image;
+  });
+
+/**
+ * キャンバスの内容を画像ファイルの Blob に変換する
+ */
+export const canvasToBlob = (canvas: HTMLCanvasElement, type: string = 'image/png', quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => blob ? resolve(blob) : reject(new Error('画像の書き出しに失敗しました')),
+      type,
+      quality
+    );
+  });
+
+/**
+ * アノテーション付きのステップ画像を PNG として取得する（各種エクスポート用）
+ */
+export const renderStepPng = async (step: Step): Promise<Blob> =>
+  canvasToBlob(await renderStepCanvas(step));
@@ -0,0 +1,162 @@
+import { GIFEncoder, applyPalette, quantize } from 'gifenc';
+import { ClipFormat, Step, StepClip } from '../types';
+import { drawAnnotations, getStepAnnotations } from './annotations';
+import { captureClipFrames } from './videoProcessor';
+
+/**
+ * ステップごとの短いクリップ（アニメーションGIF / WebM）の生成
+ * 元動画のステップ時刻から次のステップまでを切り出し、アノテーションを重ねて書き出す
+ */
+
+/** クリップの最大長（秒）。長すぎるとGIFのサイズが大きくなるため */
+const MAX_CLIP_DURATION = 8;
+
+/** クリップの最小長（秒） */
+const MIN_CLIP_DURATION = 0.5;
+
+/** 形式ごとのフレームレートと最大幅（GIF はサイズを抑えるため控えめにする） */
+const CLIP_SETTINGS: Record<ClipFormat, { fps: number; maxWidth: number }> = {
+  gif: { fps: 8, maxWidth: 480 },
+  webm: { fps: 15, maxWidth: 960 },
+};
+
+/**
+ * ステップのクリップ範囲を求める（ステップの時刻から、次のステップの時刻まで）
+ *
+ * @param steps - 全ステップ
+ * @param stepId - 対象ステップ
+ * @param duration - 元動画の長さ（秒）。不明な場合は最大長で打ち切る
+ */
+export const getClipRange = (
+  steps: Step[],
+  stepId: string,
+  duration: number = Infinity
+): { start: number; end: number } => {
+  const step = steps.find(s => s.id === stepId);
+  if (!step) throw new Error('ステップが見つかりません');
+
+  const start = step.timestamp;
+  const next = steps
+    .filter(s => s.timestamp > start)
+    .reduce((min, s) => Math.min(min, s.timestamp), duration);
+  const end = Math.min(next, start + MAX_CLIP_DURATION, duration);
+  return { start, end: Math.max(end, Math.min(start + MIN_CLIP_DURATION, duration)) };
+};
+
+/** フレームを1枚ずつ受け取って書き出すエンコーダー */
+interface ClipEncoder {
+  addFrame(canvas: HTMLCanvasElement): void | Promise<void>;
+  finish(): Promise<Blob>;
+  /** 途中で失敗・中止した時に後始末する */
+  cancel(): void;
+}
+
+/**
+ * GIF のエンコーダー（受け取ったフレームをその場で減色して書き込む）
+ */
+function createGifEncoder(fps: number): ClipEncoder {
+  const gif = GIFEncoder();
+  const delay = Math.round(1000 / fps);
+  return {
+    addFrame(canvas) {
+      const { data } = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+      const palette = quantize(data, 256);
+      gif.writeFrame(applyPalette(data, palette), canvas.width, canvas.height, { palette, delay });
+    },
+    async finish() {
+      gif.finish();
+      return new Blob([gif.bytes()], { type: 'image/gif' });
+    },
+    cancel() {},
+  };
+}
+
+/**
+ * WebM のエンコーダー（MediaRecorder で canvas を録画する）
+ * フレームのキャプチャ（シーク）は実時間より遅いため、キャプチャ中は録画を一時停止し、
+ * 各フレームを 1/fps 秒ずつだけ録画する（一時停止中の時間は録画の長さに含まれない）
+ */
+function createWebmEncoder(fps: number): ClipEncoder {
+  if (typeof MediaRecorder === 'undefined') {
+    throw new Error('この環境ではWebMの書き出しに対応していません');
+  }
+  const mimeType = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm']
+    .find(type => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) {
+    throw new Error('この環境ではWebMの書き出しに対応していません');
+  }
+
+  let recorder: MediaRecorder | null = null;
+  let track: CanvasCaptureMediaStreamTrack | null = null;
+  let stopped: Promise<void> = Promise.resolve();
+  const chunks: Blob[] = [];
+
+  return {
+    async addFrame(canvas) {
+      if (!recorder) {
+        // フレームは requestFrame で明示的に送る（同じ canvas に描き直すため自動キャプチャはしない）
+        const stream = canvas.captureStream(0);
+        track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+        recorder = new MediaRecorder(stream, { mimeType });
+        recorder.ondataavailable = (e) => chunks.push(e.data);
+        stopped = new Promise<void>((resolve) => (recorder!.onstop = () => resolve()));
+        recorder.start();
+      } else {
+        recorder.resume();
+      }
+      track!.requestFrame();
+      await new Promise((r) => setTimeout(r, 1000 / fps));
+      recorder.pause();
+    },
+    async finish() {
+      if (!recorder) throw new Error('クリップのフレームがありません');
+      recorder.stop();
+      await stopped;
+      return new Blob(chunks, { type: 'video/webm' });
+    },
+    cancel() {
+      if (recorder && recorder.state !== 'inactive') recorder.stop();
+      track?.stop();
+    },
+  };
+}
+
+/**
+ * ステップのクリップを生成する
+ * フレームはキャプチャした順にエンコードし、生成したクリップは Blob で返す（保存は呼び出し側で行う）
+ *
+ * @param videoFile - 元動画
+ * @param step - 対象ステップ（アノテーションを各フレームに重ねる）
+ * @param range - 切り出す範囲（getClipRange の結果）
+ * @param format - 出力形式
+ */
+export const createStepClip = async (
+  videoFile: File,
+  step: Step,
+  range: { start: number; end: number },
+  format: ClipFormat,
+  options: { onProgress?: (progress: number) => void; signal?: AbortSignal } = {}
+): Promise<{ clip: Omit<StepClip, 'blobId'>; blob: Blob }> => {
+  const { fps, maxWidth } = CLIP_SETTINGS[format];
+  const annotations = getStepAnnotations(step);
+  const encoder = format === 'gif' ? createGifEncoder(fps) : createWebmEncoder(fps);
+
+  try {
+    await captureClipFrames(videoFile, {
+      ...range,
+      fps,
+      maxWidth,
+      onFrame: (canvas) => {
+        drawAnnotations(canvas, annotations);
+        return encoder.addFrame(canvas);
+      },
+      onProgress: options.onProgress,
+      signal: options.signal,
+    });
+  } catch (err) {
+    encoder.cancel();
+    throw err;
+  }
+
+  return { clip: { format, ...range }, blob: await encoder.finish() };
+};
@@ -0,0 +1,237 @@
+import {
+  AlignmentType,
+  Document,
+  HeadingLevel,
+  ImageRun,
+  LevelFormat,
+  Packer,
+  Paragraph,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from 'docx';
+import { Manual, Step } from '../types';
+import { getLanguage, isRtl } from '../languages';
+import { canvasToBlob, renderStepCanvas } from './annotations';
+import { getLabels } from './labels';
+
+/**
+ * 手順書を編集可能な Word 文書（.docx）に書き出す
+ */
+
+/** 言語ごとにセクションを分けるか、言語を列に並べた対訳表にするか */
+export type DocxLayout = 'sections' | 'table';
+
+export interface DocxExportOptions {
+  layout: DocxLayout;
+  /** 各ステップにタイムスタンプを記載する */
+  includeTimestamps?: boolean;
+}
+
+/** 画像の最大サイズ（px, 96dpi換算。A4の本文幅に収まる大きさ） */
+const MAX_IMAGE_WIDTH = 600;
+const MAX_IMAGE_HEIGHT = 420;
+
+const STEP_NUMBERING = 'steps';
+
+/** 文書に埋め込むステップ画像 */
+interface StepImage {
+  data: ArrayBuffer;
+  width: number;
+  height: number;
+}
+
+async function renderStepImage(step: Step): Promise<StepImage> {
+  const canvas = await renderStepCanvas(step);
+  const scale = Math.min(1, MAX_IMAGE_WIDTH / canvas.width, MAX_IMAGE_HEIGHT / canvas.height);
+  const blob = await canvasToBlob(canvas);
+  return {
+    data: await blob.arrayBuffer(),
+    width: Math.round(canvas.width * scale),
+    height: Math.round(canvas.height * scale),
+  };
+}
+
+function getStepTitle(step: Step, lang: string, index: number): string {
+  return step.translations[lang]?.title || `${getLabels(lang).step} ${index + 1}`;
+}
+
+/**
+ * 言語の文字方向に合わせたテキスト（RTL の言語は段落・文字列とも右横書きにする）
+ */
+function textRun(text: string, lang: string, bold?: boolean): TextRun {
+  return new TextRun({ text, bold, rightToLeft: isRtl(lang) });
+}
+
+/** 改行ごとに段落を分ける */
+function textParagraphs(text: string, lang: string): Paragraph[] {
+  return text.split('\n').map(line => new Paragraph({ bidirectional: isRtl(lang), children: [textRun(line, lang)] }));
+}
+
+function titleParagraph(manual: Manual, lang: string): Paragraph {
+  return new Paragraph({
+    heading: HeadingLevel.TITLE,
+    bidirectional: isRtl(lang),
+    children: [textRun(manual.overview?.[lang]?.title || manual.title, lang)],
+  });
+}
+
+/**
+ * 番号付きの見出し（ステップ番号は Word の段落番号で振る）
+ * instance を言語ごとに変えることで、セクションごとに1から振り直す
+ */
+function stepHeading(title: string, instance: number, lang: string): Paragraph {
+  return new Paragraph({
+    heading: HeadingLevel.HEADING_2,
+    numbering: { reference: STEP_NUMBERING, level: 0, instance },
+    bidirectional: isRtl(lang),
+    children: [textRun(title, lang)],
+  });
+}
+
+function imageWithCaption(image: StepImage, index: number, caption: string, lang: string): Paragraph[] {
+  return [
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      keepNext: true,
+      children: [
+        new ImageRun({
+          type: 'png',
+          data: image.data,
+          transformation: { width: image.width, height: image.height },
+          altText: { name: `step-${index + 1}`, title: caption, description: caption },
+        }),
+      ],
+    }),
+    new Paragraph({
+      style: 'Caption',
+      alignment: AlignmentType.CENTER,
+      bidirectional: isRtl(lang),
+      children: [textRun(`${getLabels(lang).figure} ${index + 1}: ${caption}`, lang)],
+    }),
+  ];
+}
+
+function timestampParagraph(step: Step, lang: string): Paragraph {
+  return new Paragraph({
+    style: 'Caption',
+    bidirectional: isRtl(lang),
+    children: [textRun(`${getLabels(lang).timestamp}: ${step.timestamp.toFixed(2)}s`, lang)],
+  });
+}
+
+/**
+ * 言語ごとのセクション（各言語で見出し・画像・説明を繰り返す）
+ */
+function buildLanguageSection(
+  manual: Manual,
+  lang: string,
+  images: StepImage[],
+  instance: number,
+  options: DocxExportOptions
+) {
+  const children: Paragraph[] = [titleParagraph(manual, lang)];
+
+  manual.steps.forEach((step, index) => {
+    const title = getStepTitle(step, lang, index);
+    children.push(stepHeading(title, instance, lang));
+    if (options.includeTimestamps) children.push(timestampParagraph(step, lang));
+    children.push(...imageWithCaption(images[index], index, title, lang));
+    children.push(...textParagraphs(step.translations[lang]?.description ?? '', lang));
+  });
+
+  return { properties: {}, children };
+}
+
+/**
+ * 対訳表のセクション（見出しと画像は先頭の言語、本文は言語を列に並べた表）
+ */
+function buildTableSection(manual: Manual, languages: string[], images: StepImage[], options: DocxExportOptions) {
+  const primary = languages[0];
+  const children: (Paragraph | Table)[] = [titleParagraph(manual, primary)];
+  const columnWidth = Math.floor(100 / languages.length);
+
+  manual.steps.forEach((step, index) => {
+    const title = getStepTitle(step, primary, index);
+    children.push(stepHeading(title, 0, primary));
+    if (options.includeTimestamps) children.push(timestampParagraph(step, primary));
+    children.push(...imageWithCaption(images[index], index, title, primary));
+
+    children.push(new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      rows: [
+        new TableRow({
+          tableHeader: true,
+          children: languages.map(lang => new TableCell({
+            width: { size: columnWidth, type: WidthType.PERCENTAGE },
+            children: [new Paragraph({ bidirectional: isRtl(lang), children: [textRun(getLanguage(lang).nativeLabel, lang, true)] })],
+          })),
+        }),
+        new TableRow({
+          cantSplit: true,
+          children: languages.map(lang => new TableCell({
+            width: { size: columnWidth, type: WidthType.PERCENTAGE },
+            children: [
+              new Paragraph({ bidirectional: isRtl(lang), children: [textRun(step.translations[lang]?.title ?? '', lang, true)] }),
+              ...textParagraphs(step.translations[lang]?.description ?? '', lang),
+            ],
+          })),
+        }),
+      ],
+    }));
+  });
+
+  return { properties: {}, children };
+}
+
+/**
+ * 手順書の Word 文書を生成する
+ *
+ * @param manual - 出力する手順書
+ * @param languages - 出力する言語（先頭が主言語）
+ * @param options - レイアウトとタイムスタンプの有無
+ */
+export const createManualDocx = async (
+  manual: Manual,
+  languages: string[],
+  options: DocxExportOptions
+): Promise<Blob> => {
+  const images: StepImage[] = [];
+  for (const step of manual.steps) {
+    images.push(await renderStepImage(step));
+  }
+
+  const sections = options.layout === 'table'
+    ? [buildTableSection(manual, languages, images, options)]
+    : languages.map((lang, i) => buildLanguageSection(manual, lang, images, i, options));
+
+  const doc = new Document({
+    title: manual.title,
+    creator: 'AutoManual AI',
+    styles: {
+      paragraphStyles: [
+        {
+          id: 'Caption',
+          name: 'Caption',
+          basedOn: 'Normal',
+          next: 'Normal',
+          run: { size: 18, color: '64748B' },
+          paragraph: { spacing: { after: 160 } },
+        },
+      ],
+    },
+    numbering: {
+      config: [
+        {
+          reference: STEP_NUMBERING,
+          levels: [{ level: 0, format: LevelFormat.DECIMAL, text: '%1.', alignment: AlignmentType.START }],
+        },
+      ],
+    },
+    sections,
+  });
+
+  return Packer.toBlob(doc);
+};
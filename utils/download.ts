@@ -0,0 +1,21 @@
+/** ダウンロード開始後にオブジェクトURLを解放するまでの待ち時間（ミリ秒） */
+const REVOKE_DELAY = 1000;
+
+/**
+ * Blob をファイルとしてダウンロードさせる
+ * クリック直後にURLを解放するとダウンロードが中止されるブラウザがあるため、少し待ってから解放する
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY);
+};
+
+/**
+ * ファイル名に使えない文字を置き換える
+ */
+export const sanitizeFileName = (name: string): string =>
+  name.replace(/[\\/:*?"<>|]/g, '_').trim() || 'manual';
@@ -0,0 +1,130 @@
+/**
+ * フレーム間の変化スコア計算（タイル単位のSSIM）
+ * DOM に依存しない純粋関数のみで構成し、メインスレッドとワーカーの両方から使う
+ */
+
+/** ダウンサンプリング解像度（シーン変化検出用） */
+export const SAMPLE_WIDTH = 160;
+export const SAMPLE_HEIGHT = 90;
+
+/** SSIM計算のタイルサイズ（ダウンサンプリング後のピクセル数） */
+const TILE_SIZE = 10;
+
+/** 画面全体のタイル数（変化スコア 1/TILE_COUNT がタイル1枚分の変化に当たる） */
+export const TILE_COUNT = Math.ceil(SAMPLE_WIDTH / TILE_SIZE) * Math.ceil(SAMPLE_HEIGHT / TILE_SIZE);
+
+/** このSSIMを下回ったタイルを「変化あり」とみなす */
+const TILE_SSIM_THRESHOLD = 0.85;
+
+/** SSIMの安定化定数（8bit輝度） */
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+
+/**
+ * RGBAピクセル配列を輝度（Rec.601）配列に変換する
+ */
+export const toLuminance = (pixels: Uint8ClampedArray): Float32Array => {
+  const luma = new Float32Array(pixels.length / 4);
+  for (let i = 0, p = 0; i < pixels.length; i += 4, p++) {
+    luma[p] = 0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2];
+  }
+  return luma;
+};
+
+/**
+ * 除外領域（0-1000スケール）をダウンサンプリング解像度のピクセルマスクに変換する
+ * マスク値 1 のピクセルはスコア計算から除外される
+ */
+export const buildIgnoreMask = (
+  regions: [number, number, number, number][] | undefined,
+  width: number,
+  height: number
+): Uint8Array | null => {
+  if (!regions || regions.length === 0) return null;
+
+  const mask = new Uint8Array(width * height);
+  for (const [ymin, xmin, ymax, xmax] of regions) {
+    const x0 = Math.max(0, Math.floor((Math.min(xmin, xmax) / 1000) * width));
+    const x1 = Math.min(width, Math.ceil((Math.max(xmin, xmax) / 1000) * width));
+    const y0 = Math.max(0, Math.floor((Math.min(ymin, ymax) / 1000) * height));
+    const y1 = Math.min(height, Math.ceil((Math.max(ymin, ymax) / 1000) * height));
+    for (let y = y0; y < y1; y++) {
+      mask.fill(1, y * width + x0, y * width + x1);
+    }
+  }
+  return mask;
+};
+
+/**
+ * 1タイル分のSSIM（構造的類似度）を計算する
+ * 除外ピクセルが半分以上のタイルは評価対象外として null を返す
+ */
+function calculateTileSsim(
+  luma1: Float32Array,
+  luma2: Float32Array,
+  mask: Uint8Array | null,
+  tileX: number,
+  tileY: number,
+  width: number,
+  height: number
+): number | null {
+  const xEnd = Math.min(tileX + TILE_SIZE, width);
+  const yEnd = Math.min(tileY + TILE_SIZE, height);
+
+  let n = 0;
+  let sum1 = 0, sum2 = 0, sumSq1 = 0, sumSq2 = 0, sumCross = 0;
+  for (let y = tileY; y < yEnd; y++) {
+    for (let x = tileX; x < xEnd; x++) {
+      const i = y * width + x;
+      if (mask && mask[i]) continue;
+      const a = luma1[i];
+      const b = luma2[i];
+      n++;
+      sum1 += a;
+      sum2 += b;
+      sumSq1 += a * a;
+      sumSq2 += b * b;
+      sumCross += a * b;
+    }
+  }
+
+  const tileArea = (xEnd - tileX) * (yEnd - tileY);
+  if (n === 0 || n < tileArea / 2) return null;
+
+  const mean1 = sum1 / n;
+  const mean2 = sum2 / n;
+  const var1 = sumSq1 / n - mean1 * mean1;
+  const var2 = sumSq2 / n - mean2 * mean2;
+  const covariance = sumCross / n - mean1 * mean2;
+
+  return ((2 * mean1 * mean2 + SSIM_C1) * (2 * covariance + SSIM_C2)) /
+    ((mean1 * mean1 + mean2 * mean2 + SSIM_C1) * (var1 + var2 + SSIM_C2));
+}
+
+/**
+ * 2つのフレーム間の変化量を0-1で計算する（タイル単位のSSIM）
+ * 画面をタイルに分割し、SSIMが閾値を下回った「変化タイル」の割合を返す。
+ * 時計やカーソルのような小さな変化は少数のタイルにとどまり、
+ * ダイアログ表示のような構造的な変化は確実に検出される
+ */
+export const calculateFrameDifference = (
+  luma1: Float32Array,
+  luma2: Float32Array,
+  mask: Uint8Array | null,
+  width: number = SAMPLE_WIDTH,
+  height: number = SAMPLE_HEIGHT
+): number => {
+  let changedTiles = 0;
+  let scoredTiles = 0;
+
+  for (let tileY = 0; tileY < height; tileY += TILE_SIZE) {
+    for (let tileX = 0; tileX < width; tileX += TILE_SIZE) {
+      const ssim = calculateTileSsim(luma1, luma2, mask, tileX, tileY, width, height);
+      if (ssim === null) continue;
+      scoredTiles++;
+      if (ssim < TILE_SSIM_THRESHOLD) changedTiles++;
+    }
+  }
+
+  return scoredTiles > 0 ? changedTiles / scoredTiles : 0;
+};
@@ -0,0 +1,285 @@
+import { GlossaryEntry, GlossaryIssue, Step, Terminology } from '../types';
+import { toCanonicalLanguageCode } from '../languages';
+
+/**
+ * 用語集・スタイルガイドの読み込みと、ステップの用語チェック
+ *
+ * CSV（1行目は見出し）
+ *   用語集:         ja,en,ja:forbidden,note
+ *                   保存,Save,セーブ|セーヴ,ファイルメニューの項目
+ *     - 言語コードの列に正式な訳語、"<言語コード>:forbidden" の列に使用禁止の表記（| 区切り）
+ *   スタイルガイド: language,rule
+ *                   ja,敬体（です・ます）で書く
+ *                   en,Use the imperative mood.
+ *
+ * TBX（TBX-Basic / TBX v3）
+ *   termEntry（conceptEntry）ごとに1項目。administrativeStatus などが
+ *   deprecated / superseded / not recommended の用語は使用禁止の表記として扱う
+ */
+
+/** 使用禁止の表記とみなす TBX の用語ステータス */
+const DEPRECATED_STATUS = /deprecated|superseded|notrecommended|not recommended|rejected/i;
+
+/** 用語の前後に単語の区切りを求めない文字（分かち書きをしない文字体系） */
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Thai}]/u;
+
+/**
+ * 言語コードをレジストリの表記にそろえる（'ja-JP' → 'ja'、'pt-br' → 'pt-BR'）
+ * 対応していない言語は undefined
+ */
+function normalizeLanguageCode(code: string): string | undefined {
+  const trimmed = code.trim().replace(/_/g, '-');
+  return toCanonicalLanguageCode(trimmed) ?? toCanonicalLanguageCode(trimmed.split('-')[0]);
+}
+
+/**
+ * CSV を行・セルの配列に変換する（ダブルクォートで囲んだセル内の改行・カンマに対応）
+ */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',' || char === '\t') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+
+  return rows
+    .map(cells => cells.map(c => c.trim()))
+    .filter(cells => cells.some(Boolean));
+}
+
+/**
+ * CSV の用語集・スタイルガイドを読み込む
+ */
+function parseCsv(text: string): Partial<Terminology> {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header) throw new Error('CSVに見出し行がありません');
+  const columns = header.map(h => h.toLowerCase());
+
+  // スタイルガイド（language,rule）
+  if (columns[0] === 'language' && columns[1] === 'rule') {
+    const styleGuide: Record<string, string> = {};
+    for (const [code, rule] of rows) {
+      const lang = code ? normalizeLanguageCode(code) : undefined;
+      if (!lang || !rule) continue;
+      styleGuide[lang] = styleGuide[lang] ? `${styleGuide[lang]}\n${rule}` : rule;
+    }
+    return { styleGuide };
+  }
+
+  // 用語集（言語コードの列・"<言語コード>:forbidden" の列・note の列）
+  const termColumns = new Map<number, string>();
+  const forbiddenColumns = new Map<number, string>();
+  const noteColumn = columns.indexOf('note');
+  header.forEach((h, index) => {
+    const [code, kind] = h.split(':');
+    const lang = normalizeLanguageCode(code);
+    if (!lang) return;
+    if (kind?.trim().toLowerCase() === 'forbidden') forbiddenColumns.set(index, lang);
+    else if (!kind) termColumns.set(index, lang);
+  });
+  if (termColumns.size === 0) {
+    throw new Error('CSVの見出し行に対応している言語コードの列がありません');
+  }
+
+  const glossary: GlossaryEntry[] = [];
+  for (const cells of rows) {
+    const terms: Record<string, string> = {};
+    termColumns.forEach((lang, index) => {
+      if (cells[index]) terms[lang] = cells[index];
+    });
+    if (Object.keys(terms).length === 0) continue;
+
+    const forbidden: Record<string, string[]> = {};
+    forbiddenColumns.forEach((lang, index) => {
+      const list = (cells[index] ?? '').split('|').map(f => f.trim()).filter(Boolean);
+      if (list.length > 0) forbidden[lang] = [...(forbidden[lang] ?? []), ...list];
+    });
+    const note = noteColumn >= 0 ? cells[noteColumn] : '';
+
+    glossary.push({
+      terms,
+      ...(Object.keys(forbidden).length > 0 ? { forbidden } : {}),
+      ...(note ? { note } : {}),
+    });
+  }
+  return { glossary };
+}
+
+/** 名前空間を問わず、子孫要素をローカル名で探す */
+function findElements(parent: Element | Document, localName: string): Element[] {
+  return Array.from(parent.getElementsByTagName('*')).filter(el => el.localName === localName);
+}
+
+/**
+ * TBX の用語集を読み込む
+ */
+function parseTbx(text: string): Partial<Terminology> {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('TBXファイルをXMLとして解析できません');
+  }
+
+  const glossary: GlossaryEntry[] = [];
+  const entries = [...findElements(doc, 'termEntry'), ...findElements(doc, 'conceptEntry')];
+  for (const entry of entries) {
+    const terms: Record<string, string> = {};
+    const forbidden: Record<string, string[]> = {};
+
+    // TBX-Basic は langSet、TBX v3 は langSec
+    for (const langSet of [...findElements(entry, 'langSet'), ...findElements(entry, 'langSec')]) {
+      const lang = normalizeLanguageCode(langSet.getAttribute('xml:lang') ?? langSet.getAttribute('lang') ?? '');
+      if (!lang) continue;
+      // TBX-Basic は tig / ntig、TBX v3 は termSec
+      for (const group of [...findElements(langSet, 'tig'), ...findElements(langSet, 'ntig'), ...findElements(langSet, 'termSec')]) {
+        const term = findElements(group, 'term')[0]?.textContent?.trim();
+        if (!term) continue;
+        const deprecated = findElements(group, 'termNote').some(note => DEPRECATED_STATUS.test(note.textContent ?? ''));
+        if (deprecated) forbidden[lang] = [...(forbidden[lang] ?? []), term];
+        else if (!terms[lang]) terms[lang] = term;
+      }
+    }
+    if (Object.keys(terms).length === 0) continue;
+
+    const note = findElements(entry, 'descrip').find(d => d.getAttribute('type') === 'definition')?.textContent?.trim();
+    glossary.push({
+      terms,
+      ...(Object.keys(forbidden).length > 0 ? { forbidden } : {}),
+      ...(note ? { note } : {}),
+    });
+  }
+
+  if (glossary.length === 0) throw new Error('TBXファイルに対応している言語の用語がありません');
+  return { glossary };
+}
+
+/**
+ * 用語集・スタイルガイドのファイル（CSV / TSV / TBX）を読み込む
+ *
+ * @throws 形式が不正な場合
+ */
+export const parseTerminologyFile = (fileName: string, text: string): Partial<Terminology> =>
+  /\.(tbx|xml)$/i.test(fileName) || text.trimStart().startsWith('<')
+    ? parseTbx(text)
+    : parseCsv(text);
+
+/**
+ * 読み込んだ内容を既存の用語集・スタイルガイドに追加する
+ * 同じ訳語の項目は後から読み込んだ内容で置き換え、スタイルガイドは言語ごとに上書きする
+ */
+export const mergeTerminology = (current: Terminology | null, added: Partial<Terminology>): Terminology => {
+  const key = (entry: GlossaryEntry) => JSON.stringify(Object.entries(entry.terms).sort());
+  const addedKeys = new Set((added.glossary ?? []).map(key));
+  return {
+    glossary: [...(current?.glossary ?? []).filter(entry => !addedKeys.has(key(entry))), ...(added.glossary ?? [])],
+    styleGuide: { ...current?.styleGuide, ...added.styleGuide },
+  };
+};
+
+/** 正規表現の特殊文字をエスケープする */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 用語に一致する正規表現（分かち書きをする文字体系では単語の途中に一致しないようにする）
+ */
+function termPattern(term: string): RegExp {
+  const before = UNSPACED_SCRIPT.test(term[0]) ? '' : '(?<![\\p{L}\\p{N}])';
+  const after = UNSPACED_SCRIPT.test(term[term.length - 1]) ? '' : '(?![\\p{L}\\p{N}])';
+  return new RegExp(`${before}${escapeRegExp(term)}${after}`, 'giu');
+}
+
+function containsTerm(text: string, term: string): boolean {
+  return termPattern(term).test(text);
+}
+
+/**
+ * ステップの翻訳が用語集に違反している箇所を探す
+ * - 使用禁止の表記が使われている（修正可能）
+ * - 他の言語では用語集の訳語が使われているのに、この言語では正式な訳語が使われていない
+ */
+export const checkGlossary = (steps: Step[], glossary: GlossaryEntry[], languages: string[]): GlossaryIssue[] => {
+  const issues: GlossaryIssue[] = [];
+
+  for (const step of steps) {
+    for (const entry of glossary) {
+      for (const lang of languages) {
+        const expected = entry.terms[lang];
+        const translation = step.translations[lang];
+        if (!expected || !translation) continue;
+
+        let hasForbidden = false;
+        for (const field of ['title', 'description'] as const) {
+          for (const found of entry.forbidden?.[lang] ?? []) {
+            if (containsTerm(translation[field], found)) {
+              issues.push({ stepId: step.id, lang, field, expected, found });
+              hasForbidden = true;
+            }
+          }
+        }
+        if (hasForbidden) continue;
+
+        const usedElsewhere = Object.entries(entry.terms).some(([other, term]) =>
+          other !== lang && step.translations[other] &&
+          containsTerm(`${step.translations[other].title}\n${step.translations[other].description}`, term)
+        );
+        if (usedElsewhere && !containsTerm(`${translation.title}\n${translation.description}`, expected)) {
+          issues.push({ stepId: step.id, lang, field: 'description', expected });
+        }
+      }
+    }
+  }
+  return issues;
+};
+
+/**
+ * 使用禁止の表記を正式な訳語に置き換える（修正できない違反は無視する）
+ */
+export const fixGlossaryIssues = (steps: Step[], issues: GlossaryIssue[]): Step[] => {
+  const fixable = issues.filter(issue => issue.found);
+  if (fixable.length === 0) return steps;
+
+  return steps.map(step => {
+    const stepIssues = fixable.filter(issue => issue.stepId === step.id);
+    if (stepIssues.length === 0) return step;
+
+    const translations = { ...step.translations };
+    for (const { lang, field, found, expected } of stepIssues) {
+      if (!translations[lang]) continue;
+      translations[lang] = {
+        ...translations[lang],
+        [field]: translations[lang][field].replace(termPattern(found!), () => expected),
+      };
+    }
+    return { ...step, translations };
+  });
+};
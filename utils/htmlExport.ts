@@ -0,0 +1,268 @@
+import { Manual } from '../types';
+import { getCssFontFamily, getLanguage } from '../languages';
+import { renderStepCanvas } from './annotations';
+import { describeAction } from './actions';
+import { getLabels } from './labels';
+
+/**
+ * 手順書を1ファイルで完結するオフライン閲覧用のHTMLに書き出す
+ * （画像はデータURLで埋め込み、言語切替・キーボード操作・検索・印刷用スタイルを含む）
+ */
+
+/** 埋め込む画像の JPEG 品質 */
+const IMAGE_QUALITY = 0.9;
+
+/**
+ * 言語別の要素に付ける属性（言語切替用の data-lang と、lang・文字方向）
+ */
+function langAttributes(lang: string): string {
+  return `data-lang="${lang}" lang="${lang}" dir="${getLanguage(lang).dir}"`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const STYLES = `
+  :root { --accent: #4f46e5; --text: #1e293b; --muted: #64748b; --rule: #e2e8f0; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: 'Noto Sans JP', 'Noto Sans', -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; color: var(--text); background: #f8fafc; line-height: 1.7; }
+  header { position: sticky; top: 0; z-index: 1; background: #fff; border-bottom: 1px solid var(--rule); }
+  .toolbar { max-width: 960px; margin: 0 auto; padding: 12px 16px; display: flex; gap: 12px; align-items: center; flex-wrap: wrap; }
+  .toolbar h1 { font-size: 16px; margin: 0; margin-inline-end: auto; }
+  .langs button { border: 1px solid var(--rule); background: #fff; color: var(--muted); padding: 4px 10px; border-radius: 6px; cursor: pointer; font-weight: 700; }
+  .langs button[aria-pressed="true"] { border-color: var(--accent); color: var(--accent); background: #eef2ff; }
+  input[type="search"] { border: 1px solid var(--rule); border-radius: 6px; padding: 6px 10px; min-width: 200px; }
+  main { max-width: 960px; margin: 0 auto; padding: 24px 16px 80px; }
+  .step { background: #fff; border: 1px solid var(--rule); border-radius: 12px; margin-bottom: 24px; overflow: hidden; scroll-margin-top: 80px; }
+  .step:focus { outline: 3px solid var(--accent); outline-offset: 2px; }
+  .step-header { display: flex; align-items: center; gap: 12px; padding: 12px 16px; border-bottom: 1px solid var(--rule); }
+  .step-number { width: 32px; height: 32px; border-radius: 50%; background: var(--accent); color: #fff; display: flex; align-items: center; justify-content: center; font-weight: 700; flex-shrink: 0; }
+  .step-header h2 { font-size: 18px; margin: 0; }
+  .step-body { padding: 16px; }
+  .step-body img, .step-body video { width: 100%; height: auto; border: 1px solid var(--rule); border-radius: 8px; display: block; }
+  .step-body p { white-space: pre-wrap; margin: 16px 0 0; }
+  .overview { background: #fff; border: 1px solid var(--rule); border-radius: 12px; padding: 16px 20px; margin-bottom: 24px; }
+  .overview h2 { margin: 0 0 8px; font-size: 20px; }
+  .overview h3 { margin: 12px 0 4px; font-size: 14px; color: var(--muted); }
+  .overview ul { margin: 0; padding-inline-start: 20px; }
+  .step-body .clip { margin-top: 12px; }
+  .step-body .action { width: fit-content; margin: 12px 0 0; padding: 2px 10px; border-radius: 6px; background: #f1f5f9; font-size: 13px; font-weight: 700; color: #475569; }
+  .hint { color: var(--muted); font-size: 12px; text-align: center; }
+  .empty { color: var(--muted); text-align: center; display: none; }
+  [data-lang]:not(.active) { display: none; }
+  .step.hidden { display: none; }
+  @media print {
+    header, .hint, .empty { display: none !important; }
+    body { background: #fff; }
+    main { padding: 0; max-width: none; }
+    .step { break-inside: avoid; border-color: #cbd5e1; }
+    .step.hidden { display: block; }
+    .clip { display: none; }
+  }
+`;
+
+const SCRIPT = `
+  (function () {
+    var steps = Array.prototype.slice.call(document.querySelectorAll('.step'));
+    var search = document.getElementById('search');
+    var empty = document.querySelector('.empty');
+    var current = 0;
+
+    function setLanguage(lang) {
+      var button = document.querySelector('[data-set-lang="' + lang + '"]');
+      document.documentElement.lang = lang;
+      document.documentElement.dir = button ? button.getAttribute('data-dir') : 'ltr';
+      document.querySelectorAll('[data-lang]').forEach(function (el) {
+        el.classList.toggle('active', el.getAttribute('data-lang') === lang);
+      });
+      document.querySelectorAll('.step img').forEach(function (img) {
+        img.alt = img.getAttribute('data-alt-' + lang) || '';
+      });
+      search.placeholder = search.getAttribute('data-placeholder-' + lang) || '';
+      search.setAttribute('aria-label', search.getAttribute('data-label-' + lang) || '');
+      document.querySelectorAll('.langs button').forEach(function (btn) {
+        btn.setAttribute('aria-pressed', String(btn.getAttribute('data-set-lang') === lang));
+      });
+      filter();
+    }
+
+    function filter() {
+      var query = search.value.trim().toLowerCase();
+      var visible = 0;
+      steps.forEach(function (step) {
+        var text = Array.prototype.map.call(step.querySelectorAll('[data-lang].active'), function (el) {
+          return el.textContent;
+        }).join(' ').toLowerCase();
+        var match = !query || text.indexOf(query) >= 0;
+        step.classList.toggle('hidden', !match);
+        if (match) visible++;
+      });
+      empty.style.display = visible ? 'none' : 'block';
+    }
+
+    function focusStep(index) {
+      var visible = steps.filter(function (s) { return !s.classList.contains('hidden'); });
+      if (!visible.length) return;
+      current = Math.max(0, Math.min(visible.length - 1, index));
+      visible[current].focus();
+      visible[current].scrollIntoView({ behavior: 'smooth', block: 'start' });
+    }
+
+    function currentIndex() {
+      var visible = steps.filter(function (s) { return !s.classList.contains('hidden'); });
+      var i = visible.indexOf(document.activeElement);
+      return i >= 0 ? i : current;
+    }
+
+    document.querySelectorAll('.langs button').forEach(function (btn) {
+      btn.addEventListener('click', function () { setLanguage(btn.getAttribute('data-set-lang')); });
+    });
+    search.addEventListener('input', filter);
+
+    document.addEventListener('keydown', function (e) {
+      if (e.target === search) {
+        if (e.key === 'Escape') search.blur();
+        return;
+      }
+      if (e.key === 'ArrowDown' || e.key === 'j' || e.key === 'PageDown') {
+        e.preventDefault();
+        focusStep(currentIndex() + 1);
+      } else if (e.key === 'ArrowUp' || e.key === 'k' || e.key === 'PageUp') {
+        e.preventDefault();
+        focusStep(currentIndex() - 1);
+      } else if (e.key === 'Home') {
+        e.preventDefault();
+        focusStep(0);
+      } else if (e.key === 'End') {
+        e.preventDefault();
+        focusStep(steps.length - 1);
+      } else if (e.key === '/') {
+        e.preventDefault();
+        search.focus();
+      }
+    });
+
+    setLanguage(document.documentElement.lang);
+  })();
+`;
+
+/**
+ * 手順書の単一HTMLファイルを生成する
+ *
+ * @param manual - 出力する手順書
+ * @param languages - 切り替え可能な言語（先頭が初期表示）
+ * @param options.clips - 埋め込むクリップ（blobId → データURL）。含まれないクリップは埋め込まない
+ * @returns HTML文字列
+ */
+export const createHtmlManual = async (
+  manual: Manual,
+  languages: string[],
+  options: { clips?: Record<string, string> } = {}
+): Promise<string> => {
+  const title = escapeHtml(manual.title);
+
+  const stepSections: string[] = [];
+  for (const [index, step] of manual.steps.entries()) {
+    const canvas = await renderStepCanvas(step);
+    const image = canvas.toDataURL('image/jpeg', IMAGE_QUALITY);
+
+    const titles = languages.map(lang =>
+      `<h2 ${langAttributes(lang)}>${escapeHtml(step.translations[lang]?.title || `${getLabels(lang).step} ${index + 1}`)}</h2>`
+    ).join('');
+    // 画像は1枚だけ埋め込み、代替テキストを言語切替に合わせて差し替える
+    const altAttributes = languages.map(lang =>
+      `data-alt-${lang}="${escapeHtml(step.translations[lang]?.title ?? '')}"`
+    ).join(' ');
+    const imageTag = `<img src="${image}" alt="" ${altAttributes}>`;
+    // クリップがあれば静止画の下に再生できる形で埋め込む
+    const clipUrl = step.clip && options.clips?.[step.clip.blobId];
+    const clipTag = !clipUrl
+      ? ''
+      : step.clip.format === 'gif'
+        ? `<img class="clip" src="${clipUrl}" alt="">`
+        : `<video class="clip" src="${clipUrl}" controls loop muted playsinline></video>`;
+    const descriptions = languages.map(lang =>
+      `<p ${langAttributes(lang)}>${escapeHtml(step.translations[lang]?.description ?? '')}</p>`
+    ).join('');
+    // 操作の種類（入力文字列・押したキーを含む）
+    const actionTags = !step.action
+      ? ''
+      : languages.map(lang =>
+        `<p class="action" ${langAttributes(lang)}>${escapeHtml(describeAction(step.action, lang))}</p>`
+      ).join('');
+
+    stepSections.push(`
+    <section class="step" id="step-${index + 1}" tabindex="-1">
+      <div class="step-header"><span class="step-number">${index + 1}</span>${titles}</div>
+      <div class="step-body">${imageTag}${clipTag}${actionTags}${descriptions}</div>
+    </section>`);
+  }
+
+  // 全体の見直しで生成した目的と前提条件（言語切替に合わせて表示）
+  const overviewSections = languages.map(lang => {
+    const overview = manual.overview?.[lang];
+    if (!overview) return '';
+    const prerequisites = overview.prerequisites.length === 0 ? '' : `
+      <h3>${escapeHtml(getLabels(lang).prerequisites)}</h3>
+      <ul>${overview.prerequisites.map(p => `<li>${escapeHtml(p)}</li>`).join('')}</ul>`;
+    return `
+    <section class="overview" ${langAttributes(lang)}>
+      <h2>${escapeHtml(overview.title)}</h2>
+      ${overview.summary ? `<p>${escapeHtml(overview.summary)}</p>` : ''}${prerequisites}
+    </section>`;
+  }).join('');
+
+  // 言語ごとのフォント（レジストリのフォント候補）
+  const fontStyles = languages.map(lang => `[lang="${lang}"] { font-family: ${getCssFontFamily(lang)}; }`).join('\n  ');
+
+  // 検索欄・キー操作の説明・該当なしの表示（言語切替に合わせて差し替える）
+  const searchAttributes = languages.map(lang => {
+    const { search } = getLabels(lang);
+    return `data-placeholder-${lang}="${escapeHtml(`${search} /`)}" data-label-${lang}="${escapeHtml(search)}"`;
+  }).join(' ');
+  const hints = languages.map(lang => {
+    const labels = getLabels(lang);
+    return `<span ${langAttributes(lang)}>↑ ↓ / j k: ${escapeHtml(labels.step)} &nbsp;•&nbsp; /: ${escapeHtml(labels.search)}</span>`;
+  }).join('');
+  const emptyMessages = languages.map(lang =>
+    `<span ${langAttributes(lang)}>${escapeHtml(getLabels(lang).noMatches)}</span>`
+  ).join('');
+
+  const languageButtons = languages.map(lang =>
+    `<button type="button" data-set-lang="${lang}" data-dir="${getLanguage(lang).dir}" lang="${lang}" aria-pressed="false">${escapeHtml(getLanguage(lang).nativeLabel)}</button>`
+  ).join('');
+
+  return `<!DOCTYPE html>
+<html lang="${languages[0]}" dir="${getLanguage(languages[0]).dir}">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${title}</title>
+  <style>${STYLES}
+  ${fontStyles}</style>
+</head>
+<body>
+  <header>
+    <div class="toolbar">
+      <h1>${title}</h1>
+      <div class="langs">${languageButtons}</div>
+      <input type="search" id="search" ${searchAttributes}>
+    </div>
+  </header>
+  <main>
+    <p class="hint">${hints}</p>
+    ${overviewSections}
+    ${stepSections.join('\n')}
+    <p class="empty">${emptyMessages}</p>
+  </main>
+  <script>${SCRIPT}</script>
+</body>
+</html>
+`;
+};
@@ -0,0 +1,172 @@
+import { ActionType } from '../types';
+import { toCanonicalLanguageCode } from '../languages';
+
+/**
+ * 画面表示・書き出しに使う定型文言（言語ごと）
+ * 定型文言はすべてここで管理し、未定義の言語は英語で表示する
+ */
+
+export interface Labels {
+  /** 操作の種類 */
+  actions: Record<ActionType, string>;
+  /** ステップ（"ステップ 3" などの連番・件数の表示） */
+  step: string;
+  /** 前提条件の見出し */
+  prerequisites: string;
+  /** 目次（PDF） */
+  contents: string;
+  /** 作成日（PDF の表紙） */
+  created: string;
+  /** 表紙の副題（PDF） */
+  manualSubtitle: string;
+  /** 表紙の副題（PPTX） */
+  trainingSubtitle: string;
+  /** アジェンダ（PPTX） */
+  agenda: string;
+  /** 図のキャプション（DOCX） */
+  figure: string;
+  /** タイムスタンプ（DOCX） */
+  timestamp: string;
+  /** 検索（HTML の検索欄・キー操作の説明） */
+  search: string;
+  /** 検索に一致するステップがない時の表示（HTML） */
+  noMatches: string;
+}
+
+const LABELS: Record<string, Labels> = {
+  ja: {
+    actions: {
+      click: 'クリック', double_click: 'ダブルクリック', right_click: '右クリック', type: '入力',
+      drag: 'ドラッグ', scroll: 'スクロール', shortcut: 'ショートカット', wait: '待機',
+    },
+    step: 'ステップ', prerequisites: '前提条件', contents: '目次', created: '作成日',
+    manualSubtitle: '操作手順マニュアル', trainingSubtitle: '操作手順トレーニング', agenda: 'アジェンダ',
+    figure: '図', timestamp: 'タイムスタンプ',
+    search: '検索', noMatches: '該当するステップはありません',
+  },
+  en: {
+    actions: {
+      click: 'Click', double_click: 'Double-click', right_click: 'Right-click', type: 'Type',
+      drag: 'Drag', scroll: 'Scroll', shortcut: 'Shortcut', wait: 'Wait',
+    },
+    step: 'Step', prerequisites: 'Prerequisites', contents: 'Contents', created: 'Created',
+    manualSubtitle: 'Operation Manual', trainingSubtitle: 'Operation Training', agenda: 'Agenda',
+    figure: 'Figure', timestamp: 'Timestamp',
+    search: 'Search', noMatches: 'No matching steps',
+  },
+  zh: {
+    actions: {
+      click: '单击', double_click: '双击', right_click: '右键单击', type: '输入',
+      drag: '拖动', scroll: '滚动', shortcut: '快捷键', wait: '等待',
+    },
+    step: '步骤', prerequisites: '前提条件', contents: '目录', created: '创建日期',
+    manualSubtitle: '操作手册', trainingSubtitle: '操作培训', agenda: '议程',
+    figure: '图', timestamp: '时间戳',
+    search: '搜索', noMatches: '没有匹配的步骤',
+  },
+  'zh-TW': {
+    actions: {
+      click: '點擊', double_click: '按兩下', right_click: '按右鍵', type: '輸入',
+      drag: '拖曳', scroll: '捲動', shortcut: '快速鍵', wait: '等待',
+    },
+    step: '步驟', prerequisites: '前置條件', contents: '目錄', created: '建立日期',
+    manualSubtitle: '操作手冊', trainingSubtitle: '操作訓練', agenda: '議程',
+    figure: '圖', timestamp: '時間戳記',
+    search: '搜尋', noMatches: '沒有符合的步驟',
+  },
+  ko: {
+    actions: {
+      click: '클릭', double_click: '더블 클릭', right_click: '오른쪽 클릭', type: '입력',
+      drag: '드래그', scroll: '스크롤', shortcut: '단축키', wait: '대기',
+    },
+    step: '단계', prerequisites: '사전 조건', contents: '목차', created: '작성일',
+    manualSubtitle: '조작 매뉴얼', trainingSubtitle: '조작 교육', agenda: '아젠다',
+    figure: '그림', timestamp: '타임스탬프',
+    search: '검색', noMatches: '일치하는 단계가 없습니다',
+  },
+  de: {
+    actions: {
+      click: 'Klicken', double_click: 'Doppelklicken', right_click: 'Rechtsklick', type: 'Eingeben',
+      drag: 'Ziehen', scroll: 'Scrollen', shortcut: 'Tastenkürzel', wait: 'Warten',
+    },
+    step: 'Schritt', prerequisites: 'Voraussetzungen', contents: 'Inhalt', created: 'Erstellt',
+    manualSubtitle: 'Bedienungsanleitung', trainingSubtitle: 'Bedienungsschulung', agenda: 'Agenda',
+    figure: 'Abbildung', timestamp: 'Zeitstempel',
+    search: 'Suchen', noMatches: 'Keine passenden Schritte',
+  },
+  fr: {
+    actions: {
+      click: 'Cliquer', double_click: 'Double-cliquer', right_click: 'Clic droit', type: 'Saisir',
+      drag: 'Glisser', scroll: 'Faire défiler', shortcut: 'Raccourci', wait: 'Attendre',
+    },
+    step: 'Étape', prerequisites: 'Prérequis', contents: 'Sommaire', created: 'Créé le',
+    manualSubtitle: "Manuel d'utilisation", trainingSubtitle: "Formation à l'utilisation", agenda: 'Ordre du jour',
+    figure: 'Figure', timestamp: 'Horodatage',
+    search: 'Rechercher', noMatches: 'Aucune étape correspondante',
+  },
+  es: {
+    actions: {
+      click: 'Hacer clic', double_click: 'Doble clic', right_click: 'Clic derecho', type: 'Escribir',
+      drag: 'Arrastrar', scroll: 'Desplazar', shortcut: 'Atajo', wait: 'Esperar',
+    },
+    step: 'Paso', prerequisites: 'Requisitos previos', contents: 'Contenido', created: 'Creado',
+    manualSubtitle: 'Manual de operación', trainingSubtitle: 'Capacitación de operación', agenda: 'Agenda',
+    figure: 'Figura', timestamp: 'Marca de tiempo',
+    search: 'Buscar', noMatches: 'No hay pasos coincidentes',
+  },
+  'pt-BR': {
+    actions: {
+      click: 'Clicar', double_click: 'Clicar duas vezes', right_click: 'Clicar com o botão direito', type: 'Digitar',
+      drag: 'Arrastar', scroll: 'Rolar', shortcut: 'Atalho', wait: 'Aguardar',
+    },
+    step: 'Etapa', prerequisites: 'Pré-requisitos', contents: 'Sumário', created: 'Criado em',
+    manualSubtitle: 'Manual de operação', trainingSubtitle: 'Treinamento de operação', agenda: 'Agenda',
+    figure: 'Figura', timestamp: 'Marca de tempo',
+    search: 'Pesquisar', noMatches: 'Nenhuma etapa encontrada',
+  },
+  vi: {
+    actions: {
+      click: 'Nhấp', double_click: 'Nhấp đúp', right_click: 'Nhấp chuột phải', type: 'Nhập',
+      drag: 'Kéo', scroll: 'Cuộn', shortcut: 'Phím tắt', wait: 'Chờ',
+    },
+    step: 'Bước', prerequisites: 'Điều kiện tiên quyết', contents: 'Mục lục', created: 'Ngày tạo',
+    manualSubtitle: 'Hướng dẫn thao tác', trainingSubtitle: 'Đào tạo thao tác', agenda: 'Chương trình',
+    figure: 'Hình', timestamp: 'Mốc thời gian',
+    search: 'Tìm kiếm', noMatches: 'Không có bước nào phù hợp',
+  },
+  th: {
+    actions: {
+      click: 'คลิก', double_click: 'ดับเบิลคลิก', right_click: 'คลิกขวา', type: 'พิมพ์',
+      drag: 'ลาก', scroll: 'เลื่อน', shortcut: 'ปุ่มลัด', wait: 'รอ',
+    },
+    step: 'ขั้นตอน', prerequisites: 'ข้อกำหนดเบื้องต้น', contents: 'สารบัญ', created: 'วันที่สร้าง',
+    manualSubtitle: 'คู่มือการใช้งาน', trainingSubtitle: 'การฝึกอบรมการใช้งาน', agenda: 'วาระ',
+    figure: 'รูป', timestamp: 'เวลา',
+    search: 'ค้นหา', noMatches: 'ไม่พบขั้นตอนที่ตรงกัน',
+  },
+  ar: {
+    actions: {
+      click: 'نقر', double_click: 'نقر مزدوج', right_click: 'نقر بزر الماوس الأيمن', type: 'كتابة',
+      drag: 'سحب', scroll: 'تمرير', shortcut: 'اختصار', wait: 'انتظار',
+    },
+    step: 'خطوة', prerequisites: 'المتطلبات المسبقة', contents: 'المحتويات', created: 'تاريخ الإنشاء',
+    manualSubtitle: 'دليل التشغيل', trainingSubtitle: 'التدريب على التشغيل', agenda: 'جدول الأعمال',
+    figure: 'شكل', timestamp: 'الطابع الزمني',
+    search: 'بحث', noMatches: 'لا توجد خطوات مطابقة',
+  },
+  he: {
+    actions: {
+      click: 'לחיצה', double_click: 'לחיצה כפולה', right_click: 'לחיצה ימנית', type: 'הקלדה',
+      drag: 'גרירה', scroll: 'גלילה', shortcut: 'קיצור מקלדת', wait: 'המתנה',
+    },
+    step: 'שלב', prerequisites: 'דרישות מוקדמות', contents: 'תוכן עניינים', created: 'נוצר',
+    manualSubtitle: 'מדריך הפעלה', trainingSubtitle: 'הדרכת הפעלה', agenda: 'סדר יום',
+    figure: 'איור', timestamp: 'חותמת זמן',
+    search: 'חיפוש', noMatches: 'אין שלבים תואמים',
+  },
+};
+
+/**
+ * 言語の定型文言を取得する（大文字小文字の違う表記もそろえて引き、未定義の言語は英語）
+ */
+export const getLabels = (lang: string): Labels => LABELS[toCanonicalLanguageCode(lang) ?? ''] ?? LABELS.en;
@@ -0,0 +1,88 @@
+import JSZip from 'jszip';
+import { Manual, Step } from '../types';
+import { isRtl } from '../languages';
+import { renderStepPng } from './annotations';
+import { getLabels } from './labels';
+
+/**
+ * 手順書を Markdown + 画像の zip に書き出す
+ * MkDocs / Docusaurus などの Markdown ベースのサイトにそのまま配置できる構成にする
+ *
+ *   index.<lang>.md   言語ごとの本文（front matter 付き）
+ *   images/step-NN.png   アノテーション付きの画像（全言語で共有）
+ */
+
+/** 画像ファイル名（連番はステップ数に合わせてゼロ埋め） */
+function getImageFileName(index: number, total: number): string {
+  const digits = Math.max(2, String(total).length);
+  return `step-${String(index + 1).padStart(digits, '0')}.png`;
+}
+
+/** 見出しなど1行のテキストから改行を除く */
+function toSingleLine(text: string): string {
+  return text.replace(/\s*\n\s*/g, ' ').trim();
+}
+
+/** 画像の代替テキストで Markdown の構文と衝突する文字をエスケープする */
+function escapeAltText(text: string): string {
+  return toSingleLine(text).replace(/([\\[\]])/g, '\\$1');
+}
+
+/**
+ * 1言語分の Markdown を組み立てる
+ */
+function buildMarkdown(manual: Manual, lang: string, imageNames: string[]): string {
+  const overview = manual.overview?.[lang];
+  const title = overview?.title || manual.title;
+  // YAML のダブルクォート文字列は JSON 文字列と互換
+  const frontMatter = [
+    '---',
+    `title: ${JSON.stringify(title)}`,
+    ...(overview?.summary ? [`description: ${JSON.stringify(toSingleLine(overview.summary))}`] : []),
+    `lang: ${lang}`,
+    ...(isRtl(lang) ? ['dir: rtl'] : []),
+    `date: ${new Date().toISOString().slice(0, 10)}`,
+    `steps: ${manual.steps.length}`,
+    '---',
+  ].join('\n');
+
+  const body = manual.steps.map((step: Step, index) => {
+    const translation = step.translations[lang];
+    const title = toSingleLine(translation?.title || `${getLabels(lang).step} ${index + 1}`);
+    return [
+      `## ${index + 1}. ${title}`,
+      `![${escapeAltText(title)}](images/${imageNames[index]})`,
+      translation?.description ?? '',
+    ].filter(Boolean).join('\n\n');
+  });
+
+  // 全体の見直しで生成した目的と前提条件
+  const intro = !overview ? [] : [
+    overview.summary,
+    overview.prerequisites.length > 0
+      ? [`**${getLabels(lang).prerequisites}**`, overview.prerequisites.map(p => `- ${toSingleLine(p)}`).join('\n')].join('\n\n')
+      : '',
+  ].filter(Boolean);
+
+  return [frontMatter, `# ${toSingleLine(title)}`, ...intro, ...body].join('\n\n') + '\n';
+}
+
+/**
+ * 手順書の Markdown バンドル（zip）を生成する
+ *
+ * @param manual - 出力する手順書
+ * @param languages - 出力する言語（言語ごとに1ファイル）
+ */
+export const createMarkdownBundle = async (manual: Manual, languages: string[]): Promise<Blob> => {
+  const zip = new JSZip();
+  const imageNames = manual.steps.map((_, i) => getImageFileName(i, manual.steps.length));
+
+  for (const [index, step] of manual.steps.entries()) {
+    zip.file(`images/${imageNames[index]}`, await renderStepPng(step));
+  }
+  for (const lang of languages) {
+    zip.file(`index.${lang}.md`, buildMarkdown(manual, lang, imageNames));
+  }
+
+  return zip.generateAsync({ type: 'blob' });
+};
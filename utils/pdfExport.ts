@@ -0,0 +1,611 @@
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import fontkit from '@pdf-lib/fontkit';
+import bidiFactory from 'bidi-js';
+import notoSansUrl from '@expo-google-fonts/noto-sans/400Regular/NotoSans_400Regular.ttf?url';
+import notoSansJpUrl from '@expo-google-fonts/noto-sans-jp/400Regular/NotoSansJP_400Regular.ttf?url';
+import notoSansScUrl from '@expo-google-fonts/noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf?url';
+import notoSansTcUrl from '@expo-google-fonts/noto-sans-tc/400Regular/NotoSansTC_400Regular.ttf?url';
+import notoSansKrUrl from '@expo-google-fonts/noto-sans-kr/400Regular/NotoSansKR_400Regular.ttf?url';
+import notoSansThaiUrl from '@expo-google-fonts/noto-sans-thai/400Regular/NotoSansThai_400Regular.ttf?url';
+import notoSansArabicUrl from '@expo-google-fonts/noto-sans-arabic/400Regular/NotoSansArabic_400Regular.ttf?url';
+import notoSansHebrewUrl from '@expo-google-fonts/noto-sans-hebrew/400Regular/NotoSansHebrew_400Regular.ttf?url';
+import { Manual, Step } from '../types';
+import { getLanguage, isRtl } from '../languages';
+import { renderStepCanvas } from './annotations';
+import { getLabels, Labels } from './labels';
+
+/**
+ * 手順書データから構造化されたPDFを生成する
+ * （表紙・目次・ヘッダー/フッター・選択可能なテキスト・アノテーション付き画像）
+ */
+
+/** A4（pt） */
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN_X = 56;
+const MARGIN_TOP = 72;
+const MARGIN_BOTTOM = 64;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN_X * 2;
+
+/** 1ステップの画像が占める最大の高さ */
+const MAX_IMAGE_HEIGHT = (PAGE_HEIGHT - MARGIN_TOP - MARGIN_BOTTOM) * 0.5;
+
+/** 行の高さ（フォントサイズに対する倍率） */
+const LINE_HEIGHT = 1.5;
+
+const COLOR_TEXT = rgb(0.12, 0.16, 0.23);
+const COLOR_MUTED = rgb(0.58, 0.64, 0.72);
+const COLOR_ACCENT = rgb(0.31, 0.27, 0.9);
+const COLOR_RULE = rgb(0.89, 0.91, 0.94);
+
+/**
+ * 埋め込むフォントファイル（言語レジストリのフォント ID → 同梱したファイルのURL）
+ * バージョンを固定したパッケージのファイルをアセットとして同梱し、必要になった時に読み込んで使用する文字だけをサブセット化する
+ */
+const PDF_FONT_URLS: Record<string, string> = {
+  'noto-sans': notoSansUrl,
+  'noto-sans-jp': notoSansJpUrl,
+  'noto-sans-sc': notoSansScUrl,
+  'noto-sans-tc': notoSansTcUrl,
+  'noto-sans-kr': notoSansKrUrl,
+  'noto-sans-thai': notoSansThaiUrl,
+  'noto-sans-arabic': notoSansArabicUrl,
+  'noto-sans-hebrew': notoSansHebrewUrl,
+};
+
+/** アラビア文字・ヘブライ文字（fontkit が字形処理して右から左に並べる文字） */
+const RTL_SCRIPT = /[\u0590-\u08ff\ufb1d-\ufdff\ufe70-\ufefc]/;
+
+/**
+ * 出力する言語のフォントにない文字を表示するためのフォントの言語（文字種ごと、先に一致したもの）
+ * 他の言語の文字を含むタイトル・用語などに使う。どれにも当たらない文字は欧文フォント（英語）で描く
+ */
+const SCRIPT_FALLBACKS: [RegExp, string][] = [
+  [/[\u3040-\u30ff\u31f0-\u31ff]/u, 'ja'],
+  [/[\u1100-\u11ff\u3130-\u318f\uac00-\ud7af]/u, 'ko'],
+  [/[\u3000-\u303f\u3400-\u9fff\uf900-\ufaff\uff00-\uffef]/u, 'ja'],
+  [/[\u0e00-\u0e7f]/u, 'th'],
+  [/[\u0600-\u06ff\u0750-\u08ff\ufb50-\ufdff\ufe70-\ufeff]/u, 'ar'],
+  [/[\u0590-\u05ff\ufb1d-\ufb4f]/u, 'he'],
+];
+
+const bidi = bidiFactory();
+
+/** 埋め込んだフォントと、そのフォントで表示できる文字 */
+interface ChainFont {
+  font: PDFFont;
+  charset: Set<number>;
+  /** 標準フォント（フォントを取得できなかった場合の代替。WinAnsi にない文字は描けない） */
+  standard: boolean;
+}
+
+/** 文字ごとに使うフォントを選ぶフォントの並び（先頭ほど優先） */
+type FontChain = ChainFont[];
+
+/** 埋め込んだフォント（言語ごとのフォントの並びと、取得できなかったフォントの言語） */
+interface EmbeddedFonts {
+  chains: Map<string, FontChain>;
+  missingLanguages: string[];
+}
+
+const fontCache = new Map<string, Promise<ArrayBuffer>>();
+
+/**
+ * 同梱したフォントファイルを読み込む（同じフォントは1回だけ読み込む）
+ *
+ * @param id - 言語レジストリのフォント ID
+ */
+function fetchFont(id: string): Promise<ArrayBuffer> {
+  let cached = fontCache.get(id);
+  if (!cached) {
+    cached = (async () => {
+      const url = PDF_FONT_URLS[id];
+      if (!url) throw new Error(`未登録のフォントです: ${id}`);
+      const res = await fetch(url);
+      if (!res.ok) throw new Error(`フォントの読み込みに失敗しました: ${res.status}`);
+      return res.arrayBuffer();
+    })();
+    cached.catch(() => fontCache.delete(id));
+    fontCache.set(id, cached);
+  }
+  return cached;
+}
+
+/**
+ * フォントを埋め込む
+ * 出力する言語のフォントを埋め込んだうえで、それらにない文字（他の言語の文字）があれば文字種に合うフォントを追加する
+ * 取得できなかったフォントは標準フォント（Helvetica）で代替し、その言語を missingLanguages で返す
+ *
+ * @param text - 文書に描くすべての文字列（追加するフォントの判定用）
+ */
+async function embedFonts(doc: PDFDocument, languages: string[], text: string): Promise<EmbeddedFonts> {
+  const byFontId = new Map<string, ChainFont | null>();
+  const missingLanguages: string[] = [];
+
+  const embed = async (lang: string): Promise<ChainFont | null> => {
+    const fontId = getLanguage(lang).fonts.pdf;
+    if (!byFontId.has(fontId)) {
+      try {
+        const font = await doc.embedFont(await fetchFont(fontId), { subset: true });
+        byFontId.set(fontId, { font, charset: new Set(font.getCharacterSet()), standard: false });
+      } catch (error) {
+        console.warn(`Failed to load the PDF font for "${lang}"`, error);
+        byFontId.set(fontId, null);
+      }
+    }
+    const entry = byFontId.get(fontId) ?? null;
+    if (!entry && !missingLanguages.includes(lang)) missingLanguages.push(lang);
+    return entry;
+  };
+
+  const own = new Map<string, ChainFont | null>();
+  for (const lang of languages) own.set(lang, await embed(lang));
+
+  // 出力する言語のフォントにない文字の文字種から、追加するフォントの言語を決める
+  const covered = (codePoint: number) => [...byFontId.values()].some(entry => entry?.charset.has(codePoint));
+  const fallbackLanguages = new Set<string>();
+  for (const char of new Set(text)) {
+    if (/\s/u.test(char) || covered(char.codePointAt(0)!)) continue;
+    fallbackLanguages.add(SCRIPT_FALLBACKS.find(([pattern]) => pattern.test(char))?.[1] ?? 'en');
+  }
+  for (const lang of fallbackLanguages) await embed(lang);
+
+  const loaded = [...new Set(byFontId.values())].filter((entry): entry is ChainFont => !!entry);
+  if (missingLanguages.length > 0 || loaded.length === 0) {
+    const font = await doc.embedFont(StandardFonts.Helvetica);
+    loaded.push({ font, charset: new Set(font.getCharacterSet()), standard: true });
+  }
+
+  const chains = new Map<string, FontChain>();
+  for (const lang of languages) {
+    const first = own.get(lang);
+    chains.set(lang, first ? [first, ...loaded.filter(entry => entry !== first)] : loaded);
+  }
+  return { chains, missingLanguages };
+}
+
+/**
+ * テキストを、各文字を表示できるフォントごとの区間に分ける
+ * どのフォントにもない文字は先頭のフォントで描く（標準フォントでは描けないため "?" にする）
+ */
+function splitByFont(text: string, chain: FontChain): { text: string; font: PDFFont }[] {
+  const segments: { text: string; entry: ChainFont }[] = [];
+  for (const char of text) {
+    const codePoint = char.codePointAt(0)!;
+    const entry = chain.find(f => f.charset.has(codePoint)) ?? chain[0];
+    const drawn = entry.charset.has(codePoint) || !entry.standard ? char : '?';
+    const last = segments[segments.length - 1];
+    if (last?.entry === entry) {
+      last.text += drawn;
+    } else {
+      segments.push({ text: drawn, entry });
+    }
+  }
+  return segments.map(({ text, entry }) => ({ text, font: entry.font }));
+}
+
+/**
+ * テキストの幅（文字ごとのフォントで測る）
+ */
+function widthOfText(text: string, chain: FontChain, size: number): number {
+  return splitByFont(text, chain).reduce((sum, segment) => sum + segment.font.widthOfTextAtSize(segment.text, size), 0);
+}
+
+/**
+ * テキストを指定幅で折り返す
+ * 欧文は単語単位、CJKは1文字単位で改行する
+ */
+function wrapText(text: string, chain: FontChain, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  const fits = (s: string) => widthOfText(s, chain, size) <= maxWidth;
+
+  for (const paragraph of text.replace(/\r/g, '').split('\n')) {
+    const tokens = paragraph.match(/[^\s\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]+|\s+|[\s\S]/gu) ?? [];
+    let line = '';
+
+    for (const token of tokens) {
+      if (fits(line + token)) {
+        line += token;
+        continue;
+      }
+      if (line.trim()) lines.push(line.trimEnd());
+      line = token.trimStart();
+
+      // 1語で幅を超える場合は文字単位で分割
+      while (line.length > 1 && !fits(line)) {
+        let cut = line.length - 1;
+        while (cut > 1 && !fits(line.slice(0, cut))) cut--;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    }
+    lines.push(line.trimEnd());
+  }
+  return lines;
+}
+
+/**
+ * 幅に収まらない場合は末尾を省略する
+ */
+function truncateText(text: string, chain: FontChain, size: number, maxWidth: number): string {
+  if (widthOfText(text, chain, size) <= maxWidth) return text;
+  let end = text.length;
+  while (end > 0 && widthOfText(`${text.slice(0, end)}…`, chain, size) > maxWidth) end--;
+  return `${text.slice(0, end)}…`;
+}
+
+/**
+ * 1行を表示順（左から右）の区間に分ける（Unicode 双方向アルゴリズム。区間ごとに描くフォントも決める）
+ * pdf-lib は fontkit の字形処理でアラビア文字の連結とアラビア文字・ヘブライ文字の区間の右から左への並べ替えを行うが、
+ * 方向の異なる区間（右横書きの中の英数字など）の並びは扱わないため、ここで区間の並びと括弧の鏡像化を済ませる
+ */
+function toVisualRuns(line: string, chain: FontChain, rtl: boolean): { text: string; font: PDFFont }[] {
+  const embedding = bidi.getEmbeddingLevels(line, rtl ? 'rtl' : 'ltr');
+  const order = bidi.getReorderedIndices(line, embedding);
+  const mirrored = bidi.getMirroredCharactersMap(line, embedding.levels);
+  const runs: { text: string; font: PDFFont }[] = [];
+
+  for (let start = 0; start < order.length;) {
+    const level = embedding.levels[order[start]];
+    let end = start;
+    while (end < order.length && embedding.levels[order[end]] === level) end++;
+    // 区間内は論理順の文字列にしてからフォントごとに分ける
+    const indices = order.slice(start, end).sort((a, b) => a - b);
+    const logical = indices.map(index => mirrored.get(index) ?? line[index]).join('');
+    const segments = splitByFont(logical, chain);
+    if (level % 2 === 1) {
+      // fontkit が右から左に並べる区間は論理順のまま、それ以外は文字の順を反転して渡す
+      for (const segment of segments.reverse()) {
+        runs.push(RTL_SCRIPT.test(segment.text) ? segment : { ...segment, text: Array.from(segment.text).reverse().join('') });
+      }
+    } else {
+      runs.push(...segments);
+    }
+    start = end;
+  }
+  return runs;
+}
+
+/** 1行のテキストの描画設定 */
+interface LineOptions {
+  /** 行の左端 */
+  x: number;
+  y: number;
+  size: number;
+  chain: FontChain;
+  color: ReturnType<typeof rgb>;
+  /** 右横書き（双方向アルゴリズムの基本方向） */
+  rtl?: boolean;
+}
+
+/**
+ * 1行のテキストを双方向アルゴリズムで並べ、文字ごとのフォントで描く
+ */
+function drawLine(page: PDFPage, line: string, { x, y, size, chain, color, rtl = false }: LineOptions) {
+  for (const run of toVisualRuns(line, chain, rtl)) {
+    page.drawText(run.text, { x, y, size, font: run.font, color });
+    x += run.font.widthOfTextAtSize(run.text, size);
+  }
+}
+
+/**
+ * 1行のテキストを右揃えで描く（x は行の右端）
+ */
+function drawLineRight(page: PDFPage, line: string, options: LineOptions) {
+  drawLine(page, line, { ...options, x: options.x - widthOfText(line, options.chain, options.size) });
+}
+
+/**
+ * 1行のテキストを本文の行頭側の余白に揃えて描く（右横書きなら右揃え、それ以外は左揃え）
+ */
+function drawLineAtStart(page: PDFPage, line: string, options: Omit<LineOptions, 'x'>) {
+  if (options.rtl) {
+    drawLineRight(page, line, { ...options, x: PAGE_WIDTH - MARGIN_X });
+  } else {
+    drawLine(page, line, { ...options, x: MARGIN_X });
+  }
+}
+
+/**
+ * 1行のテキストを本文の行末側の余白に揃えて描く（右横書きなら左揃え、それ以外は右揃え）
+ * 行頭側に見出しを置いた行のページ番号・言語の表示に使う。基本方向は引き継がない
+ *
+ * @param rtl - 行頭側のテキストが右横書きかどうか
+ */
+function drawLineAtEnd(page: PDFPage, line: string, options: Omit<LineOptions, 'x' | 'rtl'>, rtl: boolean) {
+  if (rtl) {
+    drawLine(page, line, { ...options, x: MARGIN_X });
+  } else {
+    drawLineRight(page, line, { ...options, x: PAGE_WIDTH - MARGIN_X });
+  }
+}
+
+/**
+ * ステップの見出しに使うタイトル（指定言語 → 他の言語 → 番号の順に探す）
+ */
+function getStepTitle(step: Step, lang: string, index: number, labels: Labels): string {
+  return step.translations[lang]?.title
+    || Object.values(step.translations).find(t => t.title)?.title
+    || `${labels.step} ${index + 1}`;
+}
+
+/** テキスト1ブロック（同じフォントの並び・サイズで折り返した行の集まり） */
+interface TextBlock {
+  lines: string[];
+  chain: FontChain;
+  size: number;
+  color: ReturnType<typeof rgb>;
+  /** ブロックの前の余白 */
+  gap: number;
+  /** 右横書き（右揃えで、双方向アルゴリズムの基本方向を右から左にして描く） */
+  rtl?: boolean;
+}
+
+const blockHeight = (block: TextBlock) => block.gap + block.lines.length * block.size * LINE_HEIGHT;
+
+/** 本文ページへの書き込み位置 */
+interface Cursor {
+  doc: PDFDocument;
+  page: PDFPage;
+  y: number;
+}
+
+function addContentPage(cursor: Cursor) {
+  cursor.page = cursor.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  cursor.y = PAGE_HEIGHT - MARGIN_TOP;
+}
+
+/**
+ * 残りの高さが足りなければ改ページする
+ */
+function ensureSpace(cursor: Cursor, height: number) {
+  if (cursor.y - height < MARGIN_BOTTOM) addContentPage(cursor);
+}
+
+function drawTextBlock(cursor: Cursor, block: TextBlock) {
+  cursor.y -= block.gap;
+  const lineHeight = block.size * LINE_HEIGHT;
+  for (const line of block.lines) {
+    ensureSpace(cursor, lineHeight);
+    cursor.y -= lineHeight;
+    drawLineAtStart(cursor.page, line, {
+      y: cursor.y + (lineHeight - block.size) / 2,
+      size: block.size,
+      chain: block.chain,
+      color: block.color,
+      rtl: block.rtl,
+    });
+  }
+}
+
+/**
+ * 表紙
+ */
+function drawCover(page: PDFPage, manual: Manual, chain: FontChain, labels: Labels, languages: string[]) {
+  page.drawRectangle({ x: 0, y: PAGE_HEIGHT - 12, width: PAGE_WIDTH, height: 12, color: COLOR_ACCENT });
+
+  const rtl = isRtl(languages[0]);
+  let y = PAGE_HEIGHT * 0.62;
+  drawLineAtStart(page, labels.manualSubtitle, { y, size: 14, chain, color: COLOR_ACCENT, rtl });
+  y -= 20;
+
+  for (const line of wrapText(manual.title, chain, 28, CONTENT_WIDTH)) {
+    y -= 28 * LINE_HEIGHT;
+    drawLineAtStart(page, line, { y, size: 28, chain, color: COLOR_TEXT, rtl });
+  }
+
+  y -= 24;
+  page.drawLine({ start: { x: MARGIN_X, y }, end: { x: PAGE_WIDTH - MARGIN_X, y }, thickness: 1, color: COLOR_RULE });
+  y -= 24;
+  drawLineAtStart(page, `${labels.step}: ${manual.steps.length}`, { y, size: 11, chain, color: COLOR_MUTED, rtl });
+  y -= 18;
+  // 言語コードの一覧は左横書きのまま、行頭側に揃える
+  if (rtl) {
+    drawLineRight(page, formatLanguageList(languages), { x: PAGE_WIDTH - MARGIN_X, y, size: 11, chain, color: COLOR_MUTED });
+  } else {
+    drawLine(page, formatLanguageList(languages), { x: MARGIN_X, y, size: 11, chain, color: COLOR_MUTED });
+  }
+  y -= 18;
+  drawLineAtStart(page, `${labels.created}: ${formatCreatedDate(languages[0])}`, { y, size: 11, chain, color: COLOR_MUTED, rtl });
+}
+
+/** 表紙・ヘッダーに表示する言語の一覧 */
+function formatLanguageList(languages: string[]): string {
+  return languages.map(l => l.toUpperCase()).join(' / ');
+}
+
+function formatCreatedDate(lang: string): string {
+  return new Date().toLocaleDateString(lang);
+}
+
+const TOC_FONT_SIZE = 11;
+const TOC_LINE_HEIGHT = TOC_FONT_SIZE * 2;
+const TOC_HEADING_HEIGHT = 48;
+/** 目次1ページあたりの行数 */
+const TOC_ENTRIES_PER_PAGE = Math.floor((PAGE_HEIGHT - MARGIN_TOP - MARGIN_BOTTOM - TOC_HEADING_HEIGHT) / TOC_LINE_HEIGHT);
+
+/**
+ * 目次（各ステップの開始ページ番号を見出しと反対側に揃えて表示）
+ */
+function drawTableOfContents(
+  pages: PDFPage[],
+  entries: { title: string; pageNumber: number }[],
+  chain: FontChain,
+  labels: Labels,
+  rtl: boolean
+) {
+  drawLineAtStart(pages[0], labels.contents, { y: PAGE_HEIGHT - MARGIN_TOP - 20, size: 20, chain, color: COLOR_TEXT, rtl });
+
+  entries.forEach((entry, i) => {
+    const pageIndex = Math.floor(i / TOC_ENTRIES_PER_PAGE);
+    const row = i % TOC_ENTRIES_PER_PAGE;
+    const page = pages[pageIndex];
+    const y = PAGE_HEIGHT - MARGIN_TOP - TOC_HEADING_HEIGHT - (row + 1) * TOC_LINE_HEIGHT;
+
+    const number = String(entry.pageNumber);
+    const numberWidth = widthOfText(number, chain, TOC_FONT_SIZE);
+    const label = truncateText(`${i + 1}. ${entry.title}`, chain, TOC_FONT_SIZE, CONTENT_WIDTH - numberWidth - 24);
+
+    // ページ番号は見出しと反対側（右横書きなら左端）に置く
+    drawLineAtStart(page, label, { y, size: TOC_FONT_SIZE, chain, color: COLOR_TEXT, rtl });
+    drawLineAtEnd(page, number, { y, size: TOC_FONT_SIZE, chain, color: COLOR_MUTED }, rtl);
+    page.drawLine({
+      start: { x: MARGIN_X, y: y - 6 },
+      end: { x: PAGE_WIDTH - MARGIN_X, y: y - 6 },
+      thickness: 0.5,
+      color: COLOR_RULE,
+    });
+  });
+}
+
+/**
+ * 表紙以外のページにヘッダー（タイトル・言語）とフッター（ページ番号）を描く
+ */
+function drawHeadersAndFooters(doc: PDFDocument, title: string, chain: FontChain, languages: string[]) {
+  const rtl = isRtl(languages[0]);
+  const pages = doc.getPages();
+  const langText = formatLanguageList(languages);
+  const langWidth = widthOfText(langText, chain, 8);
+
+  pages.forEach((page, i) => {
+    if (i === 0) return;
+    const headerY = PAGE_HEIGHT - 40;
+    drawLineAtStart(page, truncateText(title, chain, 8, CONTENT_WIDTH - langWidth - 16), { y: headerY, size: 8, chain, color: COLOR_MUTED, rtl });
+    drawLineAtEnd(page, langText, { y: headerY, size: 8, chain, color: COLOR_MUTED }, rtl);
+    page.drawLine({
+      start: { x: MARGIN_X, y: headerY - 8 },
+      end: { x: PAGE_WIDTH - MARGIN_X, y: headerY - 8 },
+      thickness: 0.5,
+      color: COLOR_RULE,
+    });
+
+    const footer = `${i + 1} / ${pages.length}`;
+    const footerWidth = widthOfText(footer, chain, 9);
+    drawLine(page, footer, { x: (PAGE_WIDTH - footerWidth) / 2, y: 32, size: 9, chain, color: COLOR_MUTED });
+  });
+}
+
+/**
+ * 手順書のPDFを生成する
+ *
+ * @param manual - 出力する手順書
+ * @param languages - 出力する言語（1つなら単一言語、複数なら各ステップに全言語を併記する対訳レイアウト）
+ * @param options.onFontFallback - フォントを取得できず標準フォントで代替した言語があれば呼ばれる
+ * @returns PDFファイルのバイト列
+ */
+export const createManualPdf = async (
+  manual: Manual,
+  languages: string[],
+  options: { onFontFallback?: (languages: string[]) => void } = {}
+): Promise<Uint8Array> => {
+  const primary = languages[0];
+  const labels = getLabels(primary);
+  const isBilingual = languages.length > 1;
+
+  const doc = await PDFDocument.create();
+  doc.registerFontkit(fontkit);
+  doc.setTitle(manual.title);
+  doc.setLanguage(primary);
+  doc.setCreator('AutoManual AI');
+
+  // 文書に描く文字列（出力する言語のフォントにない文字があれば、その文字種のフォントも埋め込む）
+  const text = [
+    manual.title,
+    labels.manualSubtitle, labels.step, labels.contents, labels.created,
+    formatLanguageList(languages), formatCreatedDate(primary), '0123456789. /:…[]',
+    ...manual.steps.flatMap((step, index) => [
+      getStepTitle(step, primary, index, labels),
+      ...languages.flatMap(lang => [step.translations[lang]?.title ?? '', step.translations[lang]?.description ?? '']),
+    ]),
+  ].join('\n');
+  const { chains, missingLanguages } = await embedFonts(doc, languages, text);
+  if (missingLanguages.length > 0) options.onFontFallback?.(missingLanguages);
+  const primaryChain = chains.get(primary)!;
+
+  drawCover(doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]), manual, primaryChain, labels, languages);
+
+  // 目次のページ数はステップ数で決まるため、先に確保してから最後に書き込む
+  const tocPageCount = Math.max(1, Math.ceil(manual.steps.length / TOC_ENTRIES_PER_PAGE));
+  const tocPages = Array.from({ length: tocPageCount }, () => doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]));
+
+  const cursor: Cursor = { doc, page: doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]), y: PAGE_HEIGHT - MARGIN_TOP };
+  const tocEntries: { title: string; pageNumber: number }[] = [];
+
+  for (const [index, step] of manual.steps.entries()) {
+    const title = getStepTitle(step, primary, index, labels);
+
+    const canvas = await renderStepCanvas(step);
+    const image = await doc.embedJpg(canvas.toDataURL('image/jpeg', 0.92));
+    const scale = Math.min(CONTENT_WIDTH / image.width, MAX_IMAGE_HEIGHT / image.height);
+    const imageWidth = image.width * scale;
+    const imageHeight = image.height * scale;
+
+    const heading: TextBlock = {
+      lines: wrapText(`${index + 1}. ${title}`, primaryChain, 15, CONTENT_WIDTH),
+      chain: primaryChain,
+      size: 15,
+      color: COLOR_TEXT,
+      gap: 0,
+      rtl: isRtl(primary),
+    };
+
+    const bodyBlocks: TextBlock[] = languages.flatMap(lang => {
+      const translation = step.translations[lang];
+      if (!translation) return [];
+      const chain = chains.get(lang)!;
+      const blocks: TextBlock[] = [];
+      if (isBilingual) {
+        blocks.push({
+          lines: wrapText(`[${lang.toUpperCase()}] ${translation.title}`, chain, 11, CONTENT_WIDTH),
+          chain,
+          size: 11,
+          color: COLOR_ACCENT,
+          gap: 10,
+          rtl: isRtl(lang),
+        });
+      }
+      blocks.push({
+        lines: wrapText(translation.description, chain, 10.5, CONTENT_WIDTH),
+        chain,
+        size: 10.5,
+        color: COLOR_TEXT,
+        gap: isBilingual ? 2 : 10,
+        rtl: isRtl(lang),
+      });
+      return blocks;
+    });
+
+    // ステップ全体が残りに収まらなければ新しいページから始める
+    const totalHeight = blockHeight(heading) + 12 + imageHeight + bodyBlocks.reduce((sum, b) => sum + blockHeight(b), 0);
+    if (cursor.y < PAGE_HEIGHT - MARGIN_TOP) {
+      ensureSpace(cursor, totalHeight);
+    }
+
+    tocEntries.push({ title, pageNumber: doc.getPageCount() });
+
+    drawTextBlock(cursor, heading);
+
+    ensureSpace(cursor, imageHeight + 12);
+    cursor.y -= imageHeight + 8;
+    cursor.page.drawImage(image, { x: MARGIN_X, y: cursor.y, width: imageWidth, height: imageHeight });
+    cursor.page.drawRectangle({
+      x: MARGIN_X,
+      y: cursor.y,
+      width: imageWidth,
+      height: imageHeight,
+      borderColor: COLOR_RULE,
+      borderWidth: 0.5,
+    });
+    cursor.y -= 4;
+
+    for (const block of bodyBlocks) {
+      drawTextBlock(cursor, block);
+    }
+    cursor.y -= 28;
+  }
+
+  drawTableOfContents(tocPages, tocEntries, primaryChain, labels, isRtl(primary));
+  drawHeadersAndFooters(doc, manual.title, primaryChain, languages);
+
+  return doc.save();
+};
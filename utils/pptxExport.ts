@@ -0,0 +1,257 @@
+import PptxGenJS from 'pptxgenjs';
+import { Annotation, Manual, Step } from '../types';
+import { isRtl } from '../languages';
+import { ANNOTATION_COLOR, getStepAnnotations, renderStepCanvas } from './annotations';
+import { getLabels, Labels } from './labels';
+
+/**
+ * 手順書を研修用の PowerPoint（.pptx）に書き出す
+ * 1ステップ1スライド（左に画面、右にタイトルと説明、ノートに他の言語）
+ * アノテーションは PowerPoint 上で調整できるよう図形として画像の上に重ねる
+ */
+
+export interface PptxExportOptions {
+  /** タイトルスライドの後に目次（アジェンダ）スライドを入れる */
+  includeAgenda?: boolean;
+}
+
+/** 16:9 スライドの幅（インチ） */
+const SLIDE_WIDTH = 10;
+
+/** 画像を配置する領域（左側） */
+const IMAGE_AREA = { x: 0.4, y: 0.5, w: 5.8, h: 4.6 };
+
+/** テキストを配置する領域（右側） */
+const TEXT_AREA = { x: 6.5, w: 3.1 };
+
+/** アジェンダ1枚あたりの項目数 */
+const AGENDA_ITEMS_PER_SLIDE = 10;
+
+const COLOR_TEXT = '1E293B';
+const COLOR_MUTED = '64748B';
+const COLOR_ACCENT = '4F46E5';
+
+/** 画像の長辺1インチあたりの線幅（pt）。キャンバス描画（長辺の0.3%）と同じ比率にする */
+const LINE_WIDTH_PER_INCH = 0.22;
+
+/** 画像を配置した位置（インチ） */
+interface ImageFrame {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+const toHex = (color: string) => color.replace('#', '').toUpperCase();
+
+/**
+ * 言語に合わせたテキストの向き（RTL の言語は右揃え・右横書き）
+ */
+function textDirection(lang: string): { lang: string; rtlMode?: boolean; align?: 'right' } {
+  return isRtl(lang) ? { lang, rtlMode: true, align: 'right' } : { lang };
+}
+
+function getStepTitle(step: Step, lang: string, index: number, labels: Labels): string {
+  return step.translations[lang]?.title || `${labels.step} ${index + 1}`;
+}
+
+/**
+ * アノテーションを画像上の図形として追加する
+ * モザイクは個人情報などを隠す目的のため、図形にせず画像に焼き込む（呼び出し側で処理）
+ */
+function addAnnotationShapes(pptx: PptxGenJS, slide: PptxGenJS.Slide, annotations: Annotation[], frame: ImageFrame) {
+  const lineWidth = Math.max(1, Math.max(frame.w, frame.h) * LINE_WIDTH_PER_INCH);
+
+  for (const annotation of annotations) {
+    const [b0, b1, b2, b3] = annotation.box;
+    const color = toHex(annotation.color ?? ANNOTATION_COLOR);
+    const x = frame.x + (b1 / 1000) * frame.w;
+    const y = frame.y + (b0 / 1000) * frame.h;
+    const w = ((b3 - b1) / 1000) * frame.w;
+    const h = ((b2 - b0) / 1000) * frame.h;
+
+    switch (annotation.type) {
+      case 'rect':
+      case 'ellipse': {
+        slide.addShape(annotation.type === 'rect' ? pptx.ShapeType.rect : pptx.ShapeType.ellipse, {
+          x, y, w, h,
+          line: { color, width: lineWidth },
+          fill: { type: 'none' },
+        });
+        if (annotation.type === 'rect' && annotation.label) {
+          // ラベルは枠の上（上端に余白がなければ下）に置く
+          const labelY = y - 0.28 >= frame.y ? y - 0.28 : y + h;
+          slide.addText(annotation.label, {
+            x, y: labelY, w: Math.max(w, 1.2), h: 0.28,
+            fontSize: 9, bold: true, color, margin: 0, valign: 'middle',
+          });
+        }
+        break;
+      }
+      case 'arrow': {
+        // arrow の box は [y1, x1, y2, x2]（始点→終点）。線は左上→右下で描かれるため反転で向きを合わせる
+        slide.addShape(pptx.ShapeType.line, {
+          x: Math.min(x, x + w),
+          y: Math.min(y, y + h),
+          w: Math.abs(w),
+          h: Math.abs(h),
+          flipH: w < 0,
+          flipV: h < 0,
+          line: { color, width: lineWidth, endArrowType: 'triangle' },
+        });
+        break;
+      }
+      case 'badge': {
+        const size = Math.max(0.25, Math.min(w, h));
+        slide.addText(annotation.label ?? '', {
+          shape: pptx.ShapeType.ellipse,
+          x: x + (w - size) / 2,
+          y: y + (h - size) / 2,
+          w: size,
+          h: size,
+          fill: { color },
+          color: 'FFFFFF',
+          bold: true,
+          fontSize: Math.max(8, size * 36),
+          align: 'center',
+          valign: 'middle',
+          margin: 0,
+        });
+        break;
+      }
+      case 'text': {
+        slide.addText(annotation.label ?? '', {
+          x, y, w: Math.max(w, 0.5), h: Math.max(h, 0.25),
+          fill: { color: 'FFFFFF', transparency: 10 },
+          color,
+          bold: true,
+          fontSize: Math.max(8, h * 50),
+          valign: 'middle',
+          margin: 2,
+        });
+        break;
+      }
+      case 'keys': {
+        // キーごとにキートップ風の角丸四角形を並べる
+        const keys = (annotation.label ?? '').split('+').map(k => k.trim()).filter(Boolean);
+        const keyHeight = Math.max(h, 0.25);
+        const fontSize = Math.max(8, keyHeight * 36);
+        let left = x;
+        keys.forEach((key, i) => {
+          if (i > 0) {
+            slide.addText('+', {
+              x: left, y, w: keyHeight * 0.4, h: keyHeight,
+              color, bold: true, fontSize, align: 'center', valign: 'middle', margin: 0,
+            });
+            left += keyHeight * 0.4;
+          }
+          const keyWidth = Math.max(keyHeight, (key.length * fontSize * 0.6) / 72 + keyHeight * 0.4);
+          slide.addText(key, {
+            shape: pptx.ShapeType.roundRect,
+            x: left, y, w: keyWidth, h: keyHeight,
+            rectRadius: 0.2,
+            fill: { color: 'FFFFFF' },
+            line: { color, width: Math.max(1, lineWidth * 0.6) },
+            color: COLOR_TEXT,
+            bold: true,
+            fontSize,
+            align: 'center',
+            valign: 'middle',
+            margin: 0,
+          });
+          left += keyWidth;
+        });
+        break;
+      }
+      case 'blur':
+        break;
+    }
+  }
+}
+
+function addTitleSlide(pptx: PptxGenJS, manual: Manual, lang: string, labels: Labels) {
+  const slide = pptx.addSlide();
+  slide.addShape(pptx.ShapeType.rect, { x: 0, y: 0, w: SLIDE_WIDTH, h: 0.15, fill: { color: COLOR_ACCENT }, line: { type: 'none' } });
+  slide.addText(labels.trainingSubtitle, { x: 0.8, y: 1.6, w: 8.4, h: 0.5, fontSize: 16, color: COLOR_ACCENT, bold: true });
+  slide.addText(manual.overview?.[lang]?.title || manual.title, {
+    x: 0.8, y: 2.1, w: 8.4, h: 1.2, fontSize: 34, color: COLOR_TEXT, bold: true, fit: 'shrink', ...textDirection(lang),
+  });
+  slide.addText(`${labels.step}: ${manual.steps.length}`, { x: 0.8, y: 3.5, w: 8.4, h: 0.4, fontSize: 14, color: COLOR_MUTED });
+}
+
+function addAgendaSlides(pptx: PptxGenJS, manual: Manual, lang: string, labels: Labels) {
+  for (let start = 0; start < manual.steps.length; start += AGENDA_ITEMS_PER_SLIDE) {
+    const slide = pptx.addSlide();
+    slide.addText(labels.agenda, { x: 0.6, y: 0.3, w: 8.8, h: 0.7, fontSize: 26, color: COLOR_TEXT, bold: true });
+    const items = manual.steps.slice(start, start + AGENDA_ITEMS_PER_SLIDE).map((step, i) => ({
+      text: getStepTitle(step, lang, start + i, labels),
+      options: { bullet: { type: 'number' as const, numberStartAt: start + 1 }, breakLine: true },
+    }));
+    slide.addText(items, { x: 0.8, y: 1.2, w: 8.4, h: 4, fontSize: 16, color: COLOR_TEXT, valign: 'top', paraSpaceAfter: 6, ...textDirection(lang) });
+  }
+}
+
+/**
+ * 手順書の PowerPoint を生成する
+ *
+ * @param manual - 出力する手順書
+ * @param languages - 出力する言語（先頭がスライド本文、残りはノートに記載）
+ * @param options - アジェンダスライドの有無
+ */
+export const createManualPptx = async (
+  manual: Manual,
+  languages: string[],
+  options: PptxExportOptions = {}
+): Promise<Blob> => {
+  const [primary, ...others] = languages;
+  const labels = getLabels(primary);
+
+  const pptx = new PptxGenJS();
+  pptx.layout = 'LAYOUT_16x9';
+  pptx.title = manual.title;
+  pptx.author = 'AutoManual AI';
+
+  addTitleSlide(pptx, manual, primary, labels);
+  if (options.includeAgenda) addAgendaSlides(pptx, manual, primary, labels);
+
+  for (const [index, step] of manual.steps.entries()) {
+    const annotations = getStepAnnotations(step);
+    // モザイクだけを焼き込んだ画像を背景にする
+    const canvas = await renderStepCanvas(step, 1, annotations.filter(a => a.type === 'blur'));
+
+    const scale = Math.min(IMAGE_AREA.w / canvas.width, IMAGE_AREA.h / canvas.height);
+    const frame: ImageFrame = {
+      w: canvas.width * scale,
+      h: canvas.height * scale,
+      x: IMAGE_AREA.x + (IMAGE_AREA.w - canvas.width * scale) / 2,
+      y: IMAGE_AREA.y + (IMAGE_AREA.h - canvas.height * scale) / 2,
+    };
+
+    const slide = pptx.addSlide();
+    slide.addImage({ data: canvas.toDataURL('image/png'), ...frame });
+    addAnnotationShapes(pptx, slide, annotations.filter(a => a.type !== 'blur'), frame);
+
+    slide.addText(String(index + 1), {
+      shape: pptx.ShapeType.ellipse,
+      x: TEXT_AREA.x, y: IMAGE_AREA.y, w: 0.45, h: 0.45,
+      fill: { color: COLOR_ACCENT }, color: 'FFFFFF', bold: true, fontSize: 14, align: 'center', valign: 'middle', margin: 0,
+    });
+    slide.addText(getStepTitle(step, primary, index, labels), {
+      x: TEXT_AREA.x, y: IMAGE_AREA.y + 0.6, w: TEXT_AREA.w, h: 1,
+      fontSize: 20, bold: true, color: COLOR_TEXT, valign: 'top', fit: 'shrink', ...textDirection(primary),
+    });
+    slide.addText(step.translations[primary]?.description ?? '', {
+      x: TEXT_AREA.x, y: IMAGE_AREA.y + 1.7, w: TEXT_AREA.w, h: IMAGE_AREA.h - 1.7,
+      fontSize: 13, color: COLOR_MUTED, valign: 'top', fit: 'shrink', ...textDirection(primary),
+    });
+
+    // 他の言語の説明は発表者ノートに入れる
+    const notes = others
+      .filter(lang => step.translations[lang])
+      .map(lang => `[${lang.toUpperCase()}] ${step.translations[lang].title}\n${step.translations[lang].description}`)
+      .join('\n\n');
+    if (notes) slide.addNotes(notes);
+  }
+
+  return pptx.write({ outputType: 'blob' }) as Promise<Blob>;
+};
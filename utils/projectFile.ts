@@ -0,0 +1,170 @@
+import { Manual, ProjectFile, ProjectSettings, Step, Terminology, Transcript } from '../types';
+import { downloadBlob, sanitizeFileName } from './download';
+
+/**
+ * プロジェクトファイルの生成・読み込み・マイグレーション
+ */
+
+/** 現在のプロジェクトファイル形式のバージョン */
+export const CURRENT_PROJECT_VERSION = 1;
+
+/** プロジェクトファイルの識別子 */
+const PROJECT_FORMAT = 'auto-manual-project';
+
+/** プロジェクトファイルの拡張子 */
+export const PROJECT_FILE_EXTENSION = '.amproj.json';
+
+/** 既定の抽出・解析設定（新しいセッションの初期値と、設定を持たない version 0 のファイルの変換に使う） */
+export const DEFAULT_PROJECT_SETTINGS: ProjectSettings = {
+  mode: 'auto',
+  maxFrames: 10,
+  sensitivity: 'auto',
+  scanInterval: 0.5,
+  settleDwell: 0.5,
+  ignoreRegions: [],
+  analysisMode: 'two-pass',
+  concurrency: 3,
+};
+
+/** version 0: バージョン情報を持たない Manual 単体のJSON（{ title, steps }） */
+type ProjectFileV0 = Manual;
+
+/** version 1: 現在の形式 */
+type ProjectFileV1 = ProjectFile & { version: 1 };
+
+/**
+ * バージョンごとのマイグレーション（キー: 変換元バージョン、値: 次のバージョンへの変換）
+ */
+const MIGRATIONS: { 0: (data: ProjectFileV0) => ProjectFileV1 } = {
+  0: (manual) => ({
+    format: PROJECT_FORMAT,
+    version: 1,
+    id: createProjectId(),
+    savedAt: new Date().toISOString(),
+    manual,
+    languages: Array.from(new Set(manual.steps.flatMap(s => Object.keys(s.translations ?? {})))),
+    settings: DEFAULT_PROJECT_SETTINGS,
+  }),
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isManual(value: unknown): value is Manual {
+  return isRecord(value) && Array.isArray(value.steps);
+}
+
+function isProjectFileV1(data: Record<string, unknown>): data is Record<string, unknown> & ProjectFileV1 {
+  return data.format === PROJECT_FORMAT
+    && data.version === 1
+    && isManual(data.manual)
+    && Array.isArray(data.languages)
+    && isRecord(data.settings);
+}
+
+/**
+ * プロジェクトIDを生成する
+ */
+export const createProjectId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 6)}`;
+
+/**
+ * クリップ（Blob）のIDを生成する
+ */
+export const createClipId = (): string =>
+  `clip-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 6)}`;
+
+/**
+ * 現在の状態からプロジェクトファイルを組み立てる
+ */
+export const createProjectFile = (params: {
+  id: string;
+  videoName?: string;
+  videoDuration?: number;
+  manual: Manual;
+  languages: string[];
+  settings: ProjectSettings;
+  transcript?: Transcript;
+  terminology?: Terminology;
+}): ProjectFile => ({
+  format: PROJECT_FORMAT,
+  version: CURRENT_PROJECT_VERSION,
+  savedAt: new Date().toISOString(),
+  ...params,
+});
+
+/**
+ * 読み込んだステップを正規化する
+ * 保存時に解析中だったステップは、再開できるよう未解析に戻す
+ */
+function normalizeStep(step: Step): Step {
+  return {
+    ...step,
+    translations: step.translations ?? {},
+    status: step.status === 'analyzing' ? 'pending' : step.status,
+  };
+}
+
+/**
+ * 任意のJSONデータを現在のバージョンのプロジェクトファイルに変換する
+ *
+ * @throws 形式が不正な場合、または新しいバージョンのファイルの場合
+ */
+export const migrateProject = (data: unknown): ProjectFile => {
+  if (!isRecord(data)) {
+    throw new Error('プロジェクトファイルの形式が正しくありません');
+  }
+
+  const version = data.format === PROJECT_FORMAT ? data.version : 0;
+  if (typeof version !== 'number') {
+    throw new Error('プロジェクトファイルの形式が正しくありません');
+  }
+  if (version > CURRENT_PROJECT_VERSION) {
+    throw new Error(`新しいバージョン (v${version}) のプロジェクトファイルです。アプリを更新してください`);
+  }
+
+  let project: ProjectFileV1;
+  switch (version) {
+    case 0:
+      if (!isManual(data)) {
+        throw new Error('プロジェクトファイルの形式が正しくありません');
+      }
+      project = MIGRATIONS[0](data);
+      break;
+    case 1:
+      if (!isProjectFileV1(data)) {
+        throw new Error('プロジェクトファイルに手順書データがありません');
+      }
+      project = data;
+      break;
+    default:
+      throw new Error(`v${version} のプロジェクトファイルには対応していません`);
+  }
+
+  return {
+    ...project,
+    manual: { ...project.manual, steps: project.manual.steps.map(normalizeStep) },
+  };
+};
+
+/**
+ * プロジェクトファイルのテキストを読み込む
+ */
+export const parseProjectFile = (text: string): ProjectFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('プロジェクトファイルを読み込めませんでした（JSONとして解析できません）');
+  }
+  return migrateProject(data);
+};
+
+/**
+ * プロジェクトファイルをダウンロードする
+ */
+export const downloadProjectFile = (project: ProjectFile) => {
+  const blob = new Blob([JSON.stringify(project)], { type: 'application/json' });
+  downloadBlob(blob, `${sanitizeFileName(project.manual.title)}${PROJECT_FILE_EXTENSION}`);
+};
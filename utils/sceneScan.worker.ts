@@ -0,0 +1,387 @@
+import { createFile, DataStream, Endianness, MP4BoxBuffer } from 'mp4box';
+import type { ISOFile, Movie, Sample } from 'mp4box';
+import type { ChangeSample } from '../types';
+import {
+  SAMPLE_WIDTH,
+  SAMPLE_HEIGHT,
+  toLuminance,
+  buildIgnoreMask,
+  calculateFrameDifference,
+} from './frameDifference';
+import type {
+  RefineRequest,
+  ScanRequest,
+  ScanWorkerMessage,
+  ScanWorkerRequest,
+  SettleRequest,
+} from './webCodecsScanner';
+
+/**
+ * シーン変化検出用ワーカー（スキャン・変化時刻の絞り込み・安定フレームの探索）
+ * mp4box で MP4/MOV を逆多重化し、WebCodecs の VideoDecoder で先頭から順にデコードする。
+ * シークを伴わないため長時間の録画でも高速で、メインスレッドの UI を止めない
+ */
+
+/** デコード待ちのチャンク数の上限（メモリ使用量を抑えるためのバックプレッシャー） */
+const MAX_DECODE_QUEUE = 16;
+
+/** mp4box にまとめて渡すサンプル数 */
+const SAMPLES_PER_CALLBACK = 50;
+
+const post = (message: ScanWorkerMessage) => self.postMessage(message);
+
+/**
+ * デコーダー設定に必要なコーデック固有情報（avcC など）を取り出す
+ */
+function getCodecDescription(file: ISOFile, trackId: number): Uint8Array | undefined {
+  const trak = file.getTrackById(trackId);
+  for (const entry of trak.mdia.minf.stbl.stsd.entries) {
+    const visual = entry as { avcC?: unknown; hvcC?: unknown; vpcC?: unknown; av1C?: unknown };
+    const box = (visual.avcC || visual.hvcC || visual.vpcC || visual.av1C) as
+      { write(stream: DataStream): void } | undefined;
+    if (box) {
+      const stream = new DataStream(undefined, 0, Endianness.BIG_ENDIAN);
+      box.write(stream);
+      return new Uint8Array(stream.buffer, 8); // ボックスヘッダー（8バイト）を除く
+    }
+  }
+  return undefined;
+}
+
+/**
+ * デコード待ちキューが空くまで待機
+ */
+function waitForQueue(decoder: VideoDecoder): Promise<void> {
+  if (decoder.decodeQueueSize <= MAX_DECODE_QUEUE) return Promise.resolve();
+  return new Promise((resolve) => {
+    const onDequeue = () => {
+      if (decoder.decodeQueueSize <= MAX_DECODE_QUEUE) {
+        decoder.removeEventListener('dequeue', onDequeue);
+        resolve();
+      }
+    };
+    decoder.addEventListener('dequeue', onDequeue);
+  });
+}
+
+/** デコードの設定 */
+interface DecodeOptions {
+  /** デコードした各フレームの処理（フレームは呼び出し後に閉じる） */
+  onFrame: (frame: VideoFrame, time: number) => void;
+  /**
+   * GOP（キーフレームから次のキーフレームの直前まで、秒）をデコードするかどうか
+   * 省略時はすべてデコードする。必要な区間だけをデコードすることで、シークと同じ働きを先頭からの読み込みで行う
+   */
+  needsRange?: (start: number, end: number) => boolean;
+}
+
+/**
+ * 動画ファイルを先頭から順に読み込み、フレームを表示順にデコードする
+ * @returns デコードできたかどうか（非対応の形式・コーデックの場合は false）
+ */
+async function decodeVideo(file: File, { onFrame, needsRange }: DecodeOptions): Promise<boolean> {
+  let decodeError: Error | null = null;
+  const decoder = new VideoDecoder({
+    output: (frame) => {
+      onFrame(frame, frame.timestamp / 1e6);
+      frame.close();
+    },
+    error: (e) => {
+      decodeError = e;
+    },
+  });
+
+  const mp4 = createFile();
+  const pending: Sample[] = [];
+  // デコードするかまだ決めていない GOP のサンプル（次のキーフレームが来た時点で決める）
+  let gop: Sample[] = [];
+  let trackId: number | null = null;
+  let config: VideoDecoderConfig | null = null;
+  let unsupported = false;
+
+  mp4.onError = () => {
+    unsupported = true;
+  };
+  mp4.onReady = (info: Movie) => {
+    const track = info.videoTracks[0];
+    if (!track) {
+      unsupported = true;
+      return;
+    }
+    trackId = track.id;
+    config = {
+      codec: track.codec,
+      codedWidth: track.video?.width ?? track.track_width,
+      codedHeight: track.video?.height ?? track.track_height,
+      description: getCodecDescription(mp4, track.id),
+    };
+    mp4.setExtractionOptions(track.id, undefined, { nbSamples: SAMPLES_PER_CALLBACK });
+    mp4.start();
+  };
+  mp4.onSamples = (_id: number, _user: unknown, newSamples: Sample[]) => {
+    pending.push(...newSamples);
+  };
+
+  const decodeSamples = async (samples: Sample[]) => {
+    for (const sample of samples) {
+      if (decodeError) throw decodeError;
+      await waitForQueue(decoder);
+      decoder.decode(new EncodedVideoChunk({
+        type: sample.is_sync ? 'key' : 'delta',
+        timestamp: (sample.cts * 1e6) / sample.timescale,
+        duration: (sample.duration * 1e6) / sample.timescale,
+        data: sample.data!,
+      }));
+    }
+  };
+
+  // 区切りの決まった GOP をデコードする（不要な GOP は読み飛ばす）
+  const flushGop = async (end: number) => {
+    const first = gop[0];
+    if (first && needsRange!(first.cts / first.timescale, end)) {
+      await decodeSamples(gop);
+    }
+    gop = [];
+  };
+
+  // ファイルをストリームで読み込みながら、取り出されたサンプルを順にデコード
+  const reader = file.stream().getReader();
+  let offset = 0;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      mp4.appendBuffer(MP4BoxBuffer.fromArrayBuffer(value.slice().buffer, offset));
+      offset += value.byteLength;
+      if (unsupported) break;
+
+      // トラック情報が揃った時点でデコーダーを初期化（ブラウザが非対応のコーデックなら中止）
+      if (config && decoder.state === 'unconfigured') {
+        const { supported } = await VideoDecoder.isConfigSupported(config);
+        if (!supported) {
+          unsupported = true;
+          break;
+        }
+        decoder.configure(config);
+      }
+
+      if (decoder.state === 'configured' && trackId !== null) {
+        const batch = pending.splice(0);
+        if (needsRange) {
+          for (const sample of batch) {
+            if (sample.is_sync) await flushGop(sample.cts / sample.timescale);
+            gop.push(sample);
+          }
+        } else {
+          await decodeSamples(batch);
+        }
+        // デコードした（または読み飛ばした）サンプルのデータを解放
+        const used = gop[0]?.number ?? (batch.length > 0 ? batch[batch.length - 1].number : 0);
+        if (used > 0) {
+          mp4.releaseUsedSamples(trackId, used);
+        }
+      }
+
+      post({ type: 'progress', progress: Math.round((offset / file.size) * 100) });
+    }
+    if (!unsupported && needsRange && decoder.state === 'configured') {
+      await flushGop(Infinity);
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+    mp4.flush();
+  }
+
+  if (unsupported || decoder.state !== 'configured') {
+    decoder.close();
+    return false;
+  }
+
+  await decoder.flush();
+  decoder.close();
+  if (decodeError) throw decodeError;
+  return true;
+}
+
+/**
+ * 比較用に縮小したフレームの輝度を求める
+ */
+function readLuma(ctx: OffscreenCanvasRenderingContext2D, frame: VideoFrame): Float32Array {
+  ctx.drawImage(frame, 0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+  return toLuminance(ctx.getImageData(0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT).data);
+}
+
+function createSampleContext(): OffscreenCanvasRenderingContext2D | null {
+  return new OffscreenCanvas(SAMPLE_WIDTH, SAMPLE_HEIGHT).getContext('2d', { willReadFrequently: true });
+}
+
+/**
+ * 動画全体をデコードし、スキャン間隔ごとの変化スコアを計算する
+ * @returns 変化スコア系列（非対応の形式・コーデックの場合は null）
+ */
+async function scan({ file, scanInterval, ignoreRegions }: ScanRequest): Promise<ChangeSample[] | null> {
+  const ctx = createSampleContext();
+  if (!ctx) return null;
+
+  const mask = buildIgnoreMask(ignoreRegions, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+  const samples: ChangeSample[] = [];
+  let previousLuma: Float32Array | null = null;
+  let nextSampleTime = 0;
+
+  // スキャン間隔ごとに1枚だけ縮小して比較
+  const decoded = await decodeVideo(file, {
+    onFrame: (frame, time) => {
+      if (time < nextSampleTime) return;
+      const currentLuma = readLuma(ctx, frame);
+      if (previousLuma) {
+        samples.push({ timestamp: time, changeScore: calculateFrameDifference(previousLuma, currentLuma, mask) });
+      }
+      previousLuma = currentLuma;
+      while (nextSampleTime <= time) nextSampleTime += scanInterval;
+    },
+  });
+  return decoded ? samples : null;
+}
+
+/**
+ * 変化点の時刻をフレーム単位で求める
+ * 区間（変化前の時刻〜変化を検出した時刻）の各フレームを両端のフレームと比べ、
+ * 変化後の状態に近くなった最初のフレームの時刻を返す（メインスレッドの二分探索と同じ判定を全フレームで行う）
+ * @returns 区間ごとの変化時刻（非対応の形式・コーデックの場合は null）
+ */
+async function refine({ file, ignoreRegions, windows }: RefineRequest): Promise<number[] | null> {
+  const ctx = createSampleContext();
+  if (!ctx) return null;
+
+  const mask = buildIgnoreMask(ignoreRegions, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+  const results = windows.map(w => w.after);
+  let index = 0;
+  let beforeLuma: Float32Array | null = null;
+  let candidates: { time: number; luma: Float32Array }[] = [];
+
+  const decoded = await decodeVideo(file, {
+    needsRange: (start, end) => windows.some(w => w.before < end && w.after >= start),
+    onFrame: (frame, time) => {
+      let luma: Float32Array | null = null;
+      const getLuma = () => (luma ??= readLuma(ctx, frame));
+
+      // 変化を検出した時刻に達したら、区間内のフレームを両端と比べて変化時刻を決める
+      while (index < windows.length && time >= windows[index].after) {
+        if (beforeLuma) {
+          const before = beforeLuma;
+          const after = getLuma();
+          const first = candidates.find(c =>
+            calculateFrameDifference(before, c.luma, mask) >= calculateFrameDifference(c.luma, after, mask)
+          );
+          results[index] = first?.time ?? time;
+        }
+        index++;
+        beforeLuma = null;
+        candidates = [];
+      }
+
+      if (index < windows.length && time >= windows[index].before) {
+        if (beforeLuma) {
+          candidates.push({ time, luma: getLuma() });
+        } else {
+          beforeLuma = getLuma();
+        }
+      }
+    },
+  });
+  return decoded ? results : null;
+}
+
+/**
+ * 変化点から先を step 秒ごとに調べ、画面が安定した最初の時刻を求める
+ * 変化スコアが threshold 未満の状態が dwell 秒続いた区間の先頭を採用する（limit までに安定しなければ最後に変化した時刻）
+ * @returns 区間ごとの安定した時刻（非対応の形式・コーデックの場合は null）
+ */
+async function settle({ file, ignoreRegions, windows, dwell, threshold, step }: SettleRequest): Promise<number[] | null> {
+  const ctx = createSampleContext();
+  if (!ctx) return null;
+
+  const mask = buildIgnoreMask(ignoreRegions, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+  const results = windows.map(w => w.start);
+  let index = 0;
+  let previousLuma: Float32Array | null = null;
+  let nextSampleTime = windows[0]?.start ?? Infinity;
+  let finished = false;
+
+  const next = () => {
+    index++;
+    previousLuma = null;
+    finished = false;
+    nextSampleTime = windows[index]?.start ?? Infinity;
+  };
+
+  const decoded = await decodeVideo(file, {
+    needsRange: (start, end) => windows.some(w => w.start < end && w.limit >= start),
+    onFrame: (frame, time) => {
+      while (index < windows.length && time >= nextSampleTime) {
+        const window = windows[index];
+        if (finished || nextSampleTime > window.limit) {
+          next();
+          continue;
+        }
+
+        const currentLuma = readLuma(ctx, frame);
+        if (previousLuma) {
+          if (calculateFrameDifference(previousLuma, currentLuma, mask) >= threshold) {
+            results[index] = time;
+          } else if (time - results[index] >= dwell) {
+            finished = true;
+          }
+        }
+        previousLuma = currentLuma;
+        while (nextSampleTime <= time) nextSampleTime += step;
+        return;
+      }
+    },
+  });
+  return decoded ? results : null;
+}
+
+/**
+ * ファイル先頭のボックス種別から MP4/MOV 形式かどうかを判定する
+ * （WebM などはファイル全体を読む前に非対応として扱う）
+ */
+async function isIsoBmff(file: File): Promise<boolean> {
+  const header = new Uint8Array(await file.slice(0, 8).arrayBuffer());
+  const boxType = String.fromCharCode(...header.subarray(4, 8));
+  return ['ftyp', 'moov', 'mdat', 'free', 'wide', 'skip'].includes(boxType);
+}
+
+/**
+ * リクエストの種類ごとに処理を振り分ける
+ */
+function run(request: ScanWorkerRequest): Promise<ChangeSample[] | number[] | null> {
+  switch (request.type) {
+    case 'scan':
+      return scan(request);
+    case 'refine':
+      return refine(request);
+    case 'settle':
+      return settle(request);
+  }
+}
+
+self.onmessage = async (e: MessageEvent<ScanWorkerRequest>) => {
+  try {
+    if (typeof VideoDecoder === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+      post({ type: 'unsupported', reason: 'WebCodecs / OffscreenCanvas is not available' });
+      return;
+    }
+    if (!(await isIsoBmff(e.data.file))) {
+      post({ type: 'unsupported', reason: 'Not an MP4/MOV file' });
+      return;
+    }
+    const result = await run(e.data);
+    post(result
+      ? { type: 'done', result }
+      : { type: 'unsupported', reason: 'Unsupported container or codec' });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,33 @@
+/**
+ * 同時実行数を制限した非同期処理のスケジューラ
+ * 解析APIの呼び出しを並列化しつつ、レート制限に掛かりにくいよう同時に送るリクエスト数を抑える
+ */
+
+/**
+ * 各要素に対して処理を実行する（同時に実行するのは concurrency 件まで、開始は配列の順）
+ * 中断されたら新しい処理を開始せず、実行中の処理がすべて終わってから最初の例外で reject する
+ *
+ * @param items - 処理する要素
+ * @param concurrency - 同時実行数（1 以上）
+ * @param worker - 要素ごとの処理（要素単位の失敗は worker 内で記録し、例外は中断などに限る）
+ */
+export const runWithConcurrency = async <T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> => {
+  let next = 0;
+  const lane = async () => {
+    while (next < items.length) {
+      signal?.throwIfAborted();
+      const index = next++;
+      await worker(items[index], index);
+    }
+  };
+
+  const laneCount = Math.max(1, Math.min(concurrency, items.length));
+  const results = await Promise.allSettled(Array.from({ length: laneCount }, lane));
+  const failure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+  if (failure) throw failure.reason;
+};
@@ -0,0 +1,161 @@
+import { Annotation, ManualRefinement, ManualTranslation, Step, StepClip, Translation } from '../types';
+
+/**
+ * 手順書のステップ編集操作
+ * いずれも元の配列を変更せず、新しい配列を返す（元に戻す / やり直しの履歴に積むため）
+ */
+
+/**
+ * ステップIDを生成する
+ */
+export const createStepId = (): string => Math.random().toString(36).substr(2, 9);
+
+/**
+ * 指定言語のタイトル・説明文を更新する
+ */
+export const updateTranslation = (
+  steps: Step[],
+  id: string,
+  lang: string,
+  patch: Partial<Translation>
+): Step[] =>
+  steps.map(step => {
+    if (step.id !== id) return step;
+    const current = step.translations[lang] ?? { title: '', description: '' };
+    return {
+      ...step,
+      translations: { ...step.translations, [lang]: { ...current, ...patch } },
+    };
+  });
+
+/**
+ * ステップのアノテーションを置き換える
+ */
+export const updateAnnotations = (
+  steps: Step[],
+  id: string,
+  annotations: Annotation[]
+): Step[] =>
+  steps.map(step => (step.id === id ? { ...step, annotations } : step));
+
+/**
+ * ステップのクリップを設定する（undefined で削除）
+ */
+export const updateClip = (
+  steps: Step[],
+  id: string,
+  clip: StepClip | undefined
+): Step[] =>
+  steps.map(step => (step.id === id ? { ...step, clip } : step));
+
+/**
+ * ステップが参照しているクリップの ID
+ */
+export const getClipIds = (steps: Step[]): string[] =>
+  steps.flatMap(step => (step.clip ? [step.clip.blobId] : []));
+
+/**
+ * ステップを from の位置から to の位置へ移動する
+ */
+export const moveStep = (steps: Step[], from: number, to: number): Step[] => {
+  if (from === to || from < 0 || from >= steps.length || to < 0 || to >= steps.length) {
+    return steps;
+  }
+  const next = [...steps];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+/**
+ * ステップを削除する
+ */
+export const deleteStep = (steps: Step[], id: string): Step[] =>
+  steps.filter(step => step.id !== id);
+
+/**
+ * ステップを次のステップと結合する
+ * 画像・タイムスタンプ・タイトル・アノテーションは前のステップのものを残し、説明文は連結する
+ */
+export const mergeWithNext = (steps: Step[], id: string): Step[] => {
+  const index = steps.findIndex(step => step.id === id);
+  if (index < 0 || index >= steps.length - 1) return steps;
+
+  const first = steps[index];
+  const second = steps[index + 1];
+
+  const translations: Record<string, Translation> = { ...first.translations };
+  for (const [lang, content] of Object.entries(second.translations)) {
+    const base = translations[lang];
+    translations[lang] = base
+      ? { title: base.title, description: [base.description, content.description].filter(Boolean).join('\n') }
+      : content;
+  }
+
+  const merged: Step = { ...first, translations };
+  return [...steps.slice(0, index), merged, ...steps.slice(index + 2)];
+};
+
+/**
+ * タイムスタンプの順序に合う位置へ新しいステップを挿入する
+ * （並べ替え済みの場合は、そのタイムスタンプ以前の最後のステップの直後）
+ */
+export const insertStepByTimestamp = (steps: Step[], step: Step): Step[] => {
+  let position = 0;
+  steps.forEach((s, i) => {
+    if (s.timestamp <= step.timestamp) position = i + 1;
+  });
+  return [...steps.slice(0, position), step, ...steps.slice(position)];
+};
+
+/**
+ * 手順書全体の見直し結果を適用する
+ * drop のステップは削除し、merge のステップは統合先に吸収する
+ * 統合先の説明が書き直されていない言語は、統合元の説明を連結する（mergeWithNext と同じ扱い。同じ説明は連結しない）
+ * 見直し結果にないステップは変更しない
+ */
+export const applyRefinement = (steps: Step[], refinement: ManualRefinement): Step[] => {
+  const byId = new Map(refinement.steps.map(r => [r.id, r]));
+  const kept = new Map<string, Step>();
+
+  for (const step of steps) {
+    const refined = byId.get(step.id);
+    if (refined && refined.decision !== 'keep') continue;
+    kept.set(step.id, refined?.translations
+      ? { ...step, translations: { ...step.translations, ...refined.translations } }
+      : step);
+  }
+
+  for (const step of steps) {
+    const refined = byId.get(step.id);
+    const target = refined?.decision === 'merge' && refined.mergeInto ? kept.get(refined.mergeInto) : undefined;
+    if (!target) continue;
+
+    const rewritten = byId.get(target.id)?.translations ?? {};
+    const translations: Record<string, Translation> = { ...target.translations };
+    for (const [lang, content] of Object.entries(step.translations)) {
+      const base = translations[lang];
+      // 書き直し済みの言語と、統合先に同じ説明がすでにある場合はそのまま
+      if (rewritten[lang] || (base && base.description.includes(content.description))) continue;
+      translations[lang] = base
+        ? { title: base.title, description: [base.description, content.description].filter(Boolean).join('\n') }
+        : content;
+    }
+    kept.set(target.id, { ...target, translations });
+  }
+
+  return steps.filter(step => kept.has(step.id)).map(step => kept.get(step.id)!);
+};
+
+/**
+ * 翻訳結果を各ステップに書き込む
+ * 翻訳結果には要求した言語だけが含まれるため、その言語は新しい翻訳で置き換え（再翻訳を反映する）、
+ * それ以外の言語（翻訳元を含む）の文面は変更しない（概要の書き込みも同じ規則にそろえる）
+ */
+export const mergeTranslations = (steps: Step[], translation: ManualTranslation): Step[] => {
+  const byId = new Map(translation.steps.map(t => [t.id, t.translations]));
+  return steps.map(step => {
+    const translated = byId.get(step.id);
+    return translated ? { ...step, translations: { ...step.translations, ...translated } } : step;
+  });
+};
@@ -0,0 +1,138 @@
+import JSZip from 'jszip';
+import { Manual, Step } from '../types';
+import { getLabels } from './labels';
+
+/**
+ * 元動画に合わせるチャプター（WebVTT）・字幕（VTT / SRT）・ナレーション原稿の書き出し
+ * いずれも言語ごとに1ファイルを生成する
+ */
+
+/** 最後のステップのキューの長さ（秒）。次のステップがないため固定長にする（動画の長さが分かれば動画の終わりで打ち切る） */
+const LAST_CUE_DURATION = 10;
+
+/** 1つのキュー（ステップの時刻から次のステップの時刻まで） */
+interface Cue {
+  index: number;
+  start: number;
+  end: number;
+  step: Step;
+}
+
+/**
+ * 時刻順に並べたステップからキューを作る
+ *
+ * @param duration - 元動画の長さ（秒）。不明な場合は最後のキューを固定長にする
+ */
+function buildCues(manual: Manual, duration: number = Infinity): Cue[] {
+  const sorted = manual.steps
+    .map((step, index) => ({ step, index }))
+    .sort((a, b) => a.step.timestamp - b.step.timestamp);
+
+  return sorted.map(({ step, index }, i) => ({
+    index,
+    start: step.timestamp,
+    end: i < sorted.length - 1
+      ? sorted[i + 1].step.timestamp
+      : Math.max(step.timestamp, Math.min(step.timestamp + LAST_CUE_DURATION, duration)),
+    step,
+  }));
+}
+
+/** 秒を HH:MM:SS.mmm（VTT）または HH:MM:SS,mmm（SRT）に変換する */
+function formatTime(seconds: number, separator: '.' | ','): string {
+  const totalMs = Math.round(Math.max(0, seconds) * 1000);
+  const h = Math.floor(totalMs / 3600000);
+  const m = Math.floor((totalMs % 3600000) / 60000);
+  const s = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (n: number, len = 2) => String(n).padStart(len, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms, 3)}`;
+}
+
+/**
+ * キューの本文を整える
+ * 空行はキューの終わりと解釈され、"-->" はタイミング行と誤認されるため取り除く
+ */
+function toCueText(text: string): string {
+  return text.replace(/-->/g, '→').replace(/\n\s*\n+/g, '\n').trim();
+}
+
+function getTitle(step: Step, lang: string, index: number): string {
+  return step.translations[lang]?.title || `${getLabels(lang).step} ${index + 1}`;
+}
+
+/**
+ * 字幕のキュー（説明がない言語はタイトルで代用し、どちらもないステップは出力しない）
+ */
+function buildSubtitleCues(manual: Manual, lang: string, duration?: number): (Cue & { text: string })[] {
+  return buildCues(manual, duration)
+    .map(cue => {
+      const translation = cue.step.translations[lang];
+      return { ...cue, text: toCueText(translation?.description || translation?.title || '') };
+    })
+    .filter(cue => cue.text !== '');
+}
+
+/**
+ * WebVTT チャプター（各ステップのタイトル）
+ */
+export const createChapterVtt = (manual: Manual, lang: string, duration?: number): string => {
+  const cues = buildCues(manual, duration).map(cue => [
+    `chapter-${cue.index + 1}`,
+    `${formatTime(cue.start, '.')} --> ${formatTime(cue.end, '.')}`,
+    toCueText(`${cue.index + 1}. ${getTitle(cue.step, lang, cue.index)}`),
+  ].join('\n'));
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+};
+
+/**
+ * WebVTT 字幕（各ステップの説明。説明がなければタイトル）
+ */
+export const createSubtitleVtt = (manual: Manual, lang: string, duration?: number): string => {
+  const cues = buildSubtitleCues(manual, lang, duration).map(cue => [
+    `${formatTime(cue.start, '.')} --> ${formatTime(cue.end, '.')}`,
+    cue.text,
+  ].join('\n'));
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+};
+
+/**
+ * SRT 字幕（各ステップの説明。説明がなければタイトル）
+ */
+export const createSubtitleSrt = (manual: Manual, lang: string, duration?: number): string =>
+  buildSubtitleCues(manual, lang, duration).map((cue, i) => [
+    String(i + 1),
+    `${formatTime(cue.start, ',')} --> ${formatTime(cue.end, ',')}`,
+    cue.text,
+  ].join('\n')).join('\n\n') + '\n';
+
+/**
+ * ナレーション原稿（読み上げ用のプレーンテキスト。目安の時刻と尺を添える）
+ */
+export const createNarrationScript = (manual: Manual, lang: string, duration?: number): string => {
+  const sections = buildCues(manual, duration).map(cue => {
+    const title = getTitle(cue.step, lang, cue.index);
+    const length = (cue.end - cue.start).toFixed(1);
+    return [
+      `[${formatTime(cue.start, '.').slice(0, 8)} / ${length}s] ${cue.index + 1}. ${title}`,
+      cue.step.translations[lang]?.description ?? '',
+    ].join('\n');
+  });
+  return [manual.title, ...sections].join('\n\n') + '\n';
+};
+
+/**
+ * チャプター・字幕・ナレーション原稿を言語ごとにまとめた zip を生成する
+ *
+ * @param duration - 元動画の長さ（秒）。最後のキューが動画の終わりを越えないようにする
+ */
+export const createSubtitleBundle = async (manual: Manual, languages: string[], duration?: number): Promise<Blob> => {
+  const zip = new JSZip();
+  for (const lang of languages) {
+    zip.file(`chapters.${lang}.vtt`, createChapterVtt(manual, lang, duration));
+    zip.file(`subtitles.${lang}.vtt`, createSubtitleVtt(manual, lang, duration));
+    zip.file(`subtitles.${lang}.srt`, createSubtitleSrt(manual, lang, duration));
+    zip.file(`narration.${lang}.txt`, createNarrationScript(manual, lang, duration));
+  }
+  return zip.generateAsync({ type: 'blob' });
+};
@@ -0,0 +1,90 @@
+import { TranscriptCue } from '../types';
+
+/**
+ * 字幕（SRT / WebVTT）・文字起こしの読み込み
+ * ステップ間に話された内容を解析リクエストの文脈として渡すために使う
+ */
+
+/** 時刻のみの文字起こしで、最後の区間の長さとみなす秒数（プロジェクトに保存するため有限値にする） */
+const LAST_PLAIN_CUE_DURATION = 30;
+
+/** 時刻表記（HH:MM:SS.mmm / MM:SS,mmm など）を秒に変換する */
+function parseTimestamp(value: string): number | null {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?$/);
+  if (!match) return null;
+  const [, h, m, s, ms] = match;
+  return Number(h ?? 0) * 3600 + Number(m) * 60 + Number(s) + Number((ms ?? '0').padEnd(3, '0')) / 1000;
+}
+
+/** 字幕の書式タグ（<i>, <c.xxx>, {\an8} など）を除く */
+function stripTags(text: string): string {
+  return text.replace(/<[^>]+>/g, '').replace(/\{\\[^}]*\}/g, '').trim();
+}
+
+/**
+ * SRT / WebVTT のキューを読み込む
+ */
+function parseCueFile(text: string): TranscriptCue[] {
+  const cues: TranscriptCue[] = [];
+  for (const block of text.split(/\n\s*\n/)) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex < 0) continue; // WEBVTT ヘッダー・NOTE・STYLE など
+
+    const [startText, endText] = lines[timingIndex].split('-->');
+    const start = parseTimestamp(startText);
+    // VTT はタイミング行の後ろに配置設定が続くことがある
+    const end = parseTimestamp(endText.trim().split(/\s+/)[0]);
+    const cueText = stripTags(lines.slice(timingIndex + 1).join(' '));
+    if (start === null || end === null || !cueText) continue;
+
+    cues.push({ start, end, text: cueText });
+  }
+  return cues;
+}
+
+/**
+ * 行頭に時刻がある文字起こし（"[00:12] テキスト" / "1:02:03 テキスト" など）を読み込む
+ * 時刻のない行は直前のキューに続けて扱う
+ */
+function parsePlainTranscript(text: string): TranscriptCue[] {
+  const cues: TranscriptCue[] = [];
+  for (const line of text.split('\n')) {
+    const match = line.match(/^\s*\[?((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)\]?\s*(.*)$/);
+    const start = match ? parseTimestamp(match[1]) : null;
+    if (match && start !== null) {
+      cues.push({ start, end: start + LAST_PLAIN_CUE_DURATION, text: match[2].trim() });
+    } else if (cues.length > 0 && line.trim()) {
+      const last = cues[cues.length - 1];
+      last.text = `${last.text} ${line.trim()}`.trim();
+    }
+  }
+  // 各キューは次のキューの開始まで続くものとする
+  for (let i = 0; i < cues.length - 1; i++) {
+    cues[i].end = cues[i + 1].start;
+  }
+  return cues.filter(cue => cue.text);
+}
+
+/**
+ * 字幕・文字起こしファイルの内容を読み込む
+ *
+ * @throws タイミング情報が見つからない場合
+ */
+export const parseTranscript = (text: string): TranscriptCue[] => {
+  const normalized = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const cues = normalized.includes('-->') ? parseCueFile(normalized) : parsePlainTranscript(normalized);
+  if (cues.length === 0) {
+    throw new Error('字幕・文字起こしのタイミング情報が見つかりません（SRT / VTT、または行頭に時刻のあるテキストに対応）');
+  }
+  return cues.sort((a, b) => a.start - b.start);
+};
+
+/**
+ * 指定した時間範囲に話された内容を取り出す（範囲と重なるキューをつなげる）
+ */
+export const getTranscriptBetween = (cues: TranscriptCue[], from: number, to: number): string =>
+  cues
+    .filter(cue => cue.start < to && cue.end > from)
+    .map(cue => cue.text)
+    .join(' ');
@@ -1,22 +1,54 @@
-import { ExtractOptions, ExtractedFrame } from '../types';
-
-/** ダウンサンプリング解像度（シーン変化検出用） */
-const SAMPLE_WIDTH = 160;
-const SAMPLE_HEIGHT = 90;
-
-/** 最小フレーム間隔（秒）- これより近い変化点は統合 */
-const MIN_FRAME_INTERVAL = 1.0;
-
-/** 粗いスキャンの間隔（秒） */
-const SCAN_INTERVAL = 0.5;
+import { ChangeSample, ExtractOptions, ExtractedFrame, SceneScan } from '../types';
+import {
+  SAMPLE_WIDTH,
+  SAMPLE_HEIGHT,
+  TILE_COUNT,
+  toLuminance,
+  buildIgnoreMask,
+  calculateFrameDifference,
+} from './frameDifference';
+import { refineWithWebCodecs, scanWithWebCodecs, settleWithWebCodecs } from './webCodecsScanner';
+
+/** 最小フレーム間隔（スキャン間隔の倍数）- これより近い変化点は統合 */
+const MIN_FRAME_INTERVAL_SCANS = 2;
+
+/** 粗いスキャンの間隔の既定値（秒） */
+const DEFAULT_SCAN_INTERVAL = 0.5;
+
+/** 二分探索による変化時刻の絞り込み精度（秒, 約1フレーム@30fps） */
+const REFINE_PRECISION = 1 / 30;
 
 /** デフォルトの抽出オプション */
 const DEFAULT_OPTIONS: ExtractOptions = {
   mode: 'auto',
   maxFrames: 10,
-  sensitivity: 0.03,
+  sensitivity: 'auto',
+  scanInterval: DEFAULT_SCAN_INTERVAL,
+  settleDwell: 0.5,
 };
 
+/** 自動閾値: 中央値から何MAD離れたスコアを変化点とみなすか */
+const AUTO_THRESHOLD_MAD_FACTOR = 6;
+
+/** 自動閾値の下限となる変化タイル数（時計やカーソルの点滅のような1〜2タイルの変化は変化点としない） */
+const MIN_AUTO_CHANGED_TILES = 3;
+
+/** 自動閾値の下限・上限（変化タイルの割合） */
+const MIN_AUTO_THRESHOLD = MIN_AUTO_CHANGED_TILES / TILE_COUNT;
+const MAX_AUTO_THRESHOLD = 0.5;
+
+/** 安定判定の閾値: 雑音の中央値から何MAD上までを静止とみなすか */
+const SETTLE_NOISE_MAD_FACTOR = 3;
+
+/** 安定判定の閾値の下限（変化タイルの割合。雑音のほとんどない動画用） */
+const MIN_SETTLE_THRESHOLD = 0.01;
+
+/** 安定判定: 変化後の画面を確認する間隔（秒） */
+const SETTLE_STEP = 0.1;
+
+/** 安定判定: 変化点から先を探索する最大時間（秒） */
+const MAX_SETTLE_WAIT = 3.0;
+
 /** 最低フレーム数 - これ未満の場合は等間隔で補完 */
 const MIN_FRAMES = 3;
 
@@ -25,25 +57,13 @@ const MIN_FRAMES = 3;
 // ============================================================
 
 /**
- * 2つのフレーム画像のピクセル差分を0-1で計算する
- * ダウンサンプリングした低解像度画像を比較して高速化
+ * シーン変化検出用のダウンサンプリングCanvasを生成
  */
-function calculateFrameDifference(
-  pixels1: Uint8ClampedArray,
-  pixels2: Uint8ClampedArray
-): number {
-  let totalDiff = 0;
-  const pixelCount = pixels1.length / 4; // RGBA
-
-  for (let i = 0; i < pixels1.length; i += 4) {
-    // RGB各チャンネルの差分（Alphaは無視）
-    const dr = Math.abs(pixels1[i] - pixels2[i]);
-    const dg = Math.abs(pixels1[i + 1] - pixels2[i + 1]);
-    const db = Math.abs(pixels1[i + 2] - pixels2[i + 2]);
-    totalDiff += (dr + dg + db) / (3 * 255);
-  }
-
-  return totalDiff / pixelCount;
+function createSampleCanvas(): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } {
+  const canvas = document.createElement('canvas');
+  canvas.width = SAMPLE_WIDTH;
+  canvas.height = SAMPLE_HEIGHT;
+  return { canvas, ctx: canvas.getContext('2d')! };
 }
 
 /**
@@ -64,66 +84,114 @@ async function seekAndCapture(
 }
 
 /**
- * 動画全体をスキャンしてシーン変化ポイントを検出する
+ * 動画全体をスキャンし、サンプルごとのシーン変化スコアを記録する
+ * 閾値による選別は行わず、全スコア系列を返す（閾値は後から何度でも変更可能）
  *
  * @param video - HTML Video要素
- * @param sensitivity - 感度（0-1, 低いほど敏感）
+ * @param scanInterval - スキャン間隔（秒）
+ * @param ignoreRegions - スコア計算から除外する領域（0-1000スケール）
  * @param onProgress - 進捗コールバック（0-100）
- * @returns シーン変化ポイントの配列（タイムスタンプと変化スコア）
+ * @param signal - 中断シグナル
+ * @returns サンプルごとのタイムスタンプと変化スコアの配列
  */
 async function detectSceneChanges(
   video: HTMLVideoElement,
-  sensitivity: number,
-  onProgress?: (progress: number) => void
-): Promise<{ timestamp: number; changeScore: number }[]> {
+  scanInterval: number,
+  ignoreRegions?: [number, number, number, number][],
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<ChangeSample[]> {
   const duration = video.duration;
-  const totalScans = Math.floor(duration / SCAN_INTERVAL);
+  const totalScans = Math.floor(duration / scanInterval);
 
   // ダウンサンプリング用Canvas
-  const scanCanvas = document.createElement('canvas');
-  scanCanvas.width = SAMPLE_WIDTH;
-  scanCanvas.height = SAMPLE_HEIGHT;
-  const scanCtx = scanCanvas.getContext('2d')!;
+  const { canvas: scanCanvas, ctx: scanCtx } = createSampleCanvas();
 
-  const changes: { timestamp: number; changeScore: number }[] = [];
-  let previousPixels: Uint8ClampedArray | null = null;
+  const mask = buildIgnoreMask(ignoreRegions, SAMPLE_WIDTH, SAMPLE_HEIGHT);
 
-  for (let i = 0; i <= totalScans; i++) {
-    const time = Math.min(i * SCAN_INTERVAL, duration - 0.01);
-    const currentPixels = await seekAndCapture(video, time, scanCanvas, scanCtx);
+  const samples: ChangeSample[] = [];
+  let previousLuma: Float32Array | null = null;
 
-    if (previousPixels) {
-      const diff = calculateFrameDifference(previousPixels, currentPixels);
-      if (diff >= sensitivity) {
-        changes.push({ timestamp: time, changeScore: diff });
-      }
+  for (let i = 0; i <= totalScans; i++) {
+    signal?.throwIfAborted();
+    const time = Math.min(i * scanInterval, duration - 0.01);
+    const currentLuma = toLuminance(await seekAndCapture(video, time, scanCanvas, scanCtx));
+
+    if (previousLuma) {
+      samples.push({
+        timestamp: time,
+        changeScore: calculateFrameDifference(previousLuma, currentLuma, mask),
+      });
     }
 
-    previousPixels = currentPixels;
+    previousLuma = currentLuma;
 
     // 進捗報告（スキャンフェーズ全体を 0-100% として報告）
     if (onProgress) {
-      onProgress(Math.round((i / totalScans) * 100));
+      onProgress(totalScans > 0 ? Math.round((i / totalScans) * 100) : 100);
     }
   }
 
-  return changes;
+  return samples;
+}
+
+/**
+ * スコア系列の雑音の大きさ（中央値と標準化MAD）を求める
+ * 大半のサンプルは「変化なし」の雑音（圧縮ノイズなど）であるため、分布の中心とばらつきが雑音の水準になる
+ */
+function measureNoise(samples: ChangeSample[]): { median: number; mad: number } {
+  const median = (values: number[]): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+  };
+
+  const scores = samples.map(s => s.changeScore);
+  const med = median(scores);
+  // 1.4826: 正規分布における MAD → 標準偏差 の換算係数
+  return { median: med, mad: median(scores.map(v => Math.abs(v - med))) * 1.4826 };
 }
 
+/**
+ * スコア系列の分布から自動閾値を算出する（MADベースの外れ値判定）
+ * 中央値から AUTO_THRESHOLD_MAD_FACTOR × 標準化MAD 以上離れたスコアを変化点とみなす
+ */
+export const calculateAutoThreshold = (samples: ChangeSample[]): number => {
+  if (samples.length === 0) return MIN_AUTO_THRESHOLD;
+
+  const { median, mad } = measureNoise(samples);
+  const threshold = median + AUTO_THRESHOLD_MAD_FACTOR * mad;
+  return Math.min(MAX_AUTO_THRESHOLD, Math.max(MIN_AUTO_THRESHOLD, threshold));
+};
+
+/**
+ * スコア系列の雑音の水準から安定判定の閾値を算出する
+ * 圧縮ノイズだけの差分を「まだ変化している」と誤判定しないよう、雑音の上限（中央値 + SETTLE_NOISE_MAD_FACTOR × MAD）
+ * 未満を静止とみなす。変化点の閾値（自動閾値）を超えることはない
+ */
+export const calculateSettleThreshold = (samples: ChangeSample[]): number => {
+  if (samples.length === 0) return MIN_SETTLE_THRESHOLD;
+
+  const { median, mad } = measureNoise(samples);
+  const threshold = Math.max(MIN_SETTLE_THRESHOLD, median + SETTLE_NOISE_MAD_FACTOR * mad);
+  return Math.min(calculateAutoThreshold(samples), threshold);
+};
+
 /**
  * 近接する変化点を統合し、最大フレーム数に絞り込む
  */
 function consolidateChanges(
-  changes: { timestamp: number; changeScore: number }[],
-  maxFrames: number
-): { timestamp: number; changeScore: number }[] {
+  changes: ChangeSample[],
+  maxFrames: number,
+  minInterval: number
+): ChangeSample[] {
   if (changes.length === 0) return [];
 
   // 1. 最小間隔でフィルタ（近い変化点をマージ）
   const merged: typeof changes = [changes[0]];
   for (let i = 1; i < changes.length; i++) {
     const last = merged[merged.length - 1];
-    if (changes[i].timestamp - last.timestamp < MIN_FRAME_INTERVAL) {
+    if (changes[i].timestamp - last.timestamp < minInterval) {
       // より大きな変化スコアのフレームを採用
       if (changes[i].changeScore > last.changeScore) {
         merged[merged.length - 1] = changes[i];
@@ -142,107 +210,480 @@ function consolidateChanges(
     .sort((a, b) => a.timestamp - b.timestamp);
 }
 
+/**
+ * スキャン結果と閾値から抽出するフレームのタイムスタンプを選ぶ
+ * 再スキャンせずに閾値を変更して選び直せるよう、スキャンとは分離している
+ *
+ * @param scan - シーン変化スキャンの結果
+ * @param threshold - 変化点とみなすスコアの閾値（0-1）
+ * @param maxFrames - 最大フレーム数
+ */
+export const selectFrameTimestamps = (
+  scan: SceneScan,
+  threshold: number,
+  maxFrames: number
+): ChangeSample[] => {
+  const changes = scan.samples.filter(s => s.changeScore >= threshold);
+  let selected = consolidateChanges(changes, maxFrames, scan.scanInterval * MIN_FRAME_INTERVAL_SCANS);
+
+  // 変化点が少なすぎる場合は等間隔フレームで補完
+  if (selected.length < MIN_FRAMES) {
+    const equalFrames = generateEqualIntervals(scan.duration, maxFrames);
+    // 検出済みの変化点と等間隔フレームをマージ（重複排除）
+    const existingTimes = new Set(selected.map(f => Math.round(f.timestamp * 10)));
+    for (const eq of equalFrames) {
+      if (!existingTimes.has(Math.round(eq.timestamp * 10))) {
+        selected.push(eq);
+      }
+    }
+    // 時系列順に並べ替え、maxFramesに制限
+    selected.sort((a, b) => a.timestamp - b.timestamp);
+    selected = selected.slice(0, maxFrames);
+  }
+
+  return selected;
+};
+
 // ============================================================
-// フレーム抽出（メインAPI）
+// 変化時刻の精密化（粗→密）
 // ============================================================
 
 /**
- * 動画からフレームを抽出する（シーン変化検出モード / 等間隔モード対応）
+ * 二分探索で変化が起きた最初のフレームの時刻を求める
+ * before（変化前）と after（変化後）の間で、中間フレームがどちらに近いかを見て区間を半分にしていく
  *
- * @param videoFile - 動画ファイル
- * @param options - 抽出オプション（省略時はシーン検出・最大10フレーム）
- * @returns 抽出フレームの配列
+ * @param before - 変化前のサンプル時刻（秒）
+ * @param after - 変化を検出したサンプル時刻（秒）
+ * @returns 変化後の状態になった最初の時刻（REFINE_PRECISION の精度）
  */
-export const extractFrames = async (
+async function bisectChangeTime(
+  video: HTMLVideoElement,
+  before: number,
+  after: number,
+  mask: Uint8Array | null,
+  canvas: HTMLCanvasElement,
+  ctx: CanvasRenderingContext2D
+): Promise<number> {
+  const beforeLuma = toLuminance(await seekAndCapture(video, before, canvas, ctx));
+  const afterLuma = toLuminance(await seekAndCapture(video, after, canvas, ctx));
+
+  let lo = before;
+  let hi = after;
+  while (hi - lo > REFINE_PRECISION) {
+    const mid = (lo + hi) / 2;
+    const midLuma = toLuminance(await seekAndCapture(video, mid, canvas, ctx));
+    const diffFromBefore = calculateFrameDifference(beforeLuma, midLuma, mask);
+    const diffFromAfter = calculateFrameDifference(midLuma, afterLuma, mask);
+    if (diffFromBefore < diffFromAfter) {
+      lo = mid; // まだ変化前の状態
+    } else {
+      hi = mid; // すでに変化後の状態
+    }
+  }
+
+  return hi;
+}
+
+/**
+ * 区間ごとの変化時刻を Video 要素のシークと二分探索で求める（ワーカーが使えない場合）
+ */
+async function bisectChangeTimes(
+  video: HTMLVideoElement,
+  windows: { before: number; after: number }[],
+  ignoreRegions?: [number, number, number, number][],
+  signal?: AbortSignal
+): Promise<number[]> {
+  const { canvas, ctx } = createSampleCanvas();
+  const mask = buildIgnoreMask(ignoreRegions, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+
+  const timestamps: number[] = [];
+  for (const { before, after } of windows) {
+    signal?.throwIfAborted();
+    timestamps.push(await bisectChangeTime(video, before, after, mask, canvas, ctx));
+  }
+  return timestamps;
+}
+
+/**
+ * 選ばれた変化点それぞれの時刻を、直前のスキャン区間内で精密化する
+ * WebCodecs が使える環境ではワーカーで区間内の全フレームを調べ、使えない場合はシークによる二分探索で求める
+ * 等間隔で補完したフレーム（スコア0）は変化点ではないためそのまま返す
+ */
+async function refineChangeTimestamps(
   videoFile: File,
-  options?: Partial<ExtractOptions>
-): Promise<ExtractedFrame[]> => {
-  const opts: ExtractOptions = { ...DEFAULT_OPTIONS, ...options };
+  video: HTMLVideoElement,
+  changes: ChangeSample[],
+  scanInterval: number,
+  ignoreRegions?: [number, number, number, number][],
+  signal?: AbortSignal
+): Promise<ChangeSample[]> {
+  const targets = changes.filter(change => change.changeScore !== 0);
+  if (targets.length === 0) return changes;
+
+  const windows = targets.map(change => ({
+    before: Math.max(0, change.timestamp - scanInterval),
+    after: change.timestamp,
+  }));
+  const timestamps =
+    await refineWithWebCodecs({ file: videoFile, ignoreRegions, windows }, signal) ??
+    await bisectChangeTimes(video, windows, ignoreRegions, signal);
+
+  return changes.map(change => {
+    const index = targets.indexOf(change);
+    return index < 0 ? change : { ...change, timestamp: timestamps[index] };
+  });
+}
 
+// ============================================================
+// 安定フレームの探索
+// ============================================================
+
+/**
+ * 変化点から先を調べ、画面が安定した最初の時刻を返す
+ * フェードイン中のダイアログや描画途中のページではなく、
+ * 変化スコアが settleThreshold 未満の状態が dwell 秒続いた区間の先頭を採用する
+ *
+ * @param changeTime - 検出された変化点の時刻（秒）
+ * @param limit - 探索の上限時刻（秒）。次の変化点や動画終端を超えない
+ * @returns 安定した時刻（上限までに安定しなければ最後に変化した時刻）
+ */
+async function findSettledTime(
+  video: HTMLVideoElement,
+  changeTime: number,
+  limit: number,
+  dwell: number,
+  settleThreshold: number,
+  mask: Uint8Array | null,
+  canvas: HTMLCanvasElement,
+  ctx: CanvasRenderingContext2D
+): Promise<number> {
+  let stableSince = changeTime;
+  let previousLuma = toLuminance(await seekAndCapture(video, changeTime, canvas, ctx));
+
+  for (let time = changeTime + SETTLE_STEP; time <= limit; time += SETTLE_STEP) {
+    const currentLuma = toLuminance(await seekAndCapture(video, time, canvas, ctx));
+    if (calculateFrameDifference(previousLuma, currentLuma, mask) >= settleThreshold) {
+      stableSince = time;
+    } else if (time - stableSince >= dwell) {
+      return stableSince;
+    }
+    previousLuma = currentLuma;
+  }
+
+  return stableSince;
+}
+
+/**
+ * 区間ごとの安定した時刻を Video 要素のシークで求める（ワーカーが使えない場合）
+ */
+async function findSettledTimes(
+  video: HTMLVideoElement,
+  windows: { start: number; limit: number }[],
+  dwell: number,
+  settleThreshold: number,
+  ignoreRegions?: [number, number, number, number][],
+  signal?: AbortSignal
+): Promise<number[]> {
+  const { canvas, ctx } = createSampleCanvas();
+  const mask = buildIgnoreMask(ignoreRegions, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+
+  const timestamps: number[] = [];
+  for (const { start, limit } of windows) {
+    signal?.throwIfAborted();
+    timestamps.push(await findSettledTime(video, start, limit, dwell, settleThreshold, mask, canvas, ctx));
+  }
+  return timestamps;
+}
+
+/**
+ * 選ばれた変化点それぞれについて、画面が安定したフレームの時刻に置き換える
+ * WebCodecs が使える環境ではワーカーで、使えない場合はシークで探索する
+ * 元の変化点の時刻は changeTimestamp として保持する
+ */
+async function settleFrameTimestamps(
+  videoFile: File,
+  video: HTMLVideoElement,
+  frames: ChangeSample[],
+  settleThreshold: number,
+  opts: ExtractOptions
+): Promise<(ChangeSample & { changeTimestamp: number })[]> {
+  const lastTime = video.duration - 0.01;
+  // 等間隔で補完したフレーム（スコア0）は変化点ではないためそのまま
+  const targets = opts.settleDwell ? frames.filter(frame => frame.changeScore !== 0) : [];
+  const windows = targets.map(frame => {
+    const next = frames[frames.indexOf(frame) + 1];
+    const limit = Math.min(
+      frame.timestamp + MAX_SETTLE_WAIT,
+      next ? next.timestamp - SETTLE_STEP : lastTime,
+      lastTime
+    );
+    return { start: frame.timestamp, limit };
+  });
+
+  const timestamps = windows.length === 0 ? [] :
+    await settleWithWebCodecs({
+      file: videoFile,
+      ignoreRegions: opts.ignoreRegions,
+      windows,
+      dwell: opts.settleDwell!,
+      threshold: settleThreshold,
+      step: SETTLE_STEP,
+    }, opts.signal) ??
+    await findSettledTimes(video, windows, opts.settleDwell!, settleThreshold, opts.ignoreRegions, opts.signal);
+
+  return frames.map(frame => {
+    const index = targets.indexOf(frame);
+    return { ...frame, timestamp: index < 0 ? frame.timestamp : timestamps[index], changeTimestamp: frame.timestamp };
+  });
+}
+
+// ============================================================
+// フレーム抽出（メインAPI）
+// ============================================================
+
+/**
+ * 動画ファイルを読み込み、メタデータ取得済みの Video 要素を返す
+ */
+function loadVideo(videoFile: File): Promise<HTMLVideoElement> {
   return new Promise((resolve, reject) => {
     const video = document.createElement('video');
     video.src = URL.createObjectURL(videoFile);
     video.preload = 'auto';
 
-    video.onloadedmetadata = async () => {
-      try {
-        let frameTimestamps: { timestamp: number; changeScore: number }[];
-
-        if (opts.mode === 'auto') {
-          // ========== シーン変化検出モード ==========
-          const rawChanges = await detectSceneChanges(
-            video,
-            opts.sensitivity,
-            opts.onProgress
-          );
-          frameTimestamps = consolidateChanges(rawChanges, opts.maxFrames);
-
-          // 変化点が少なすぎる場合は等間隔フレームで補完
-          if (frameTimestamps.length < MIN_FRAMES) {
-            const equalFrames = generateEqualIntervals(
-              video.duration,
-              opts.maxFrames
-            );
-            // 検出済みの変化点と等間隔フレームをマージ（重複排除）
-            const existingTimes = new Set(frameTimestamps.map(f => Math.round(f.timestamp * 10)));
-            for (const eq of equalFrames) {
-              if (!existingTimes.has(Math.round(eq.timestamp * 10))) {
-                frameTimestamps.push(eq);
-              }
-            }
-            // 時系列順に並べ替え、maxFramesに制限
-            frameTimestamps.sort((a, b) => a.timestamp - b.timestamp);
-            frameTimestamps = frameTimestamps.slice(0, opts.maxFrames);
-          }
-        } else {
-          // ========== 等間隔モード ==========
-          frameTimestamps = generateEqualIntervals(
-            video.duration,
-            opts.maxFrames
-          );
-        }
-
-        // フレーム画像を高解像度でキャプチャ
-        const captureCanvas = document.createElement('canvas');
-        captureCanvas.width = video.videoWidth;
-        captureCanvas.height = video.videoHeight;
-        const captureCtx = captureCanvas.getContext('2d')!;
-
-        const frames: ExtractedFrame[] = [];
-
-        for (let i = 0; i < frameTimestamps.length; i++) {
-          const { timestamp, changeScore } = frameTimestamps[i];
-          video.currentTime = timestamp;
-          await new Promise<void>((r) => (video.onseeked = () => r()));
-
-          captureCtx.drawImage(
-            video,
-            0,
-            0,
-            captureCanvas.width,
-            captureCanvas.height
-          );
-
-          frames.push({
-            timestamp,
-            dataUrl: captureCanvas.toDataURL('image/jpeg', 0.8),
-            changeScore,
-          });
-        }
-
-        URL.revokeObjectURL(video.src);
-        resolve(frames);
-      } catch (err) {
-        URL.revokeObjectURL(video.src);
-        reject(err);
-      }
-    };
-
+    video.onloadedmetadata = () => resolve(video);
     video.onerror = () => {
       URL.revokeObjectURL(video.src);
       reject(new Error('動画ファイルの読み込みに失敗しました'));
     };
   });
+}
+
+/**
+ * 動画の長さ（秒）を取得する（長さが分からない動画は null）
+ */
+export const getVideoDuration = async (videoFile: File): Promise<number | null> => {
+  const video = await loadVideo(videoFile);
+  URL.revokeObjectURL(video.src);
+  return Number.isFinite(video.duration) ? video.duration : null;
+};
+
+/**
+ * 動画をスキャンし、スコア系列と自動閾値をまとめる
+ * WebCodecs が使える環境ではワーカーで先頭から順にデコードし（メインスレッドを止めない）、
+ * 使えない場合は Video 要素のシークによる従来方式で処理する
+ */
+async function scanVideo(
+  videoFile: File,
+  video: HTMLVideoElement,
+  scanInterval: number = DEFAULT_SCAN_INTERVAL,
+  ignoreRegions?: [number, number, number, number][],
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<SceneScan> {
+  const samples =
+    await scanWithWebCodecs({ file: videoFile, scanInterval, ignoreRegions }, onProgress, signal) ??
+    await detectSceneChanges(video, scanInterval, ignoreRegions, onProgress, signal);
+  return {
+    duration: video.duration,
+    scanInterval,
+    samples,
+    autoThreshold: calculateAutoThreshold(samples),
+    settleThreshold: calculateSettleThreshold(samples),
+  };
+}
+
+/**
+ * 動画全体をスキャンしてシーン変化スコアの系列と自動閾値を求める
+ *
+ * @param videoFile - 動画ファイル
+ * @param options - スキャン間隔・除外領域・進捗コールバック・中断シグナル
+ * @returns スコア系列・動画長・自動閾値
+ */
+export const scanSceneChanges = async (
+  videoFile: File,
+  options?: Pick<ExtractOptions, 'scanInterval' | 'ignoreRegions' | 'onProgress' | 'signal'>
+): Promise<SceneScan> => {
+  const video = await loadVideo(videoFile);
+  try {
+    return await scanVideo(
+      videoFile,
+      video,
+      options?.scanInterval,
+      options?.ignoreRegions,
+      options?.onProgress,
+      options?.signal
+    );
+  } finally {
+    URL.revokeObjectURL(video.src);
+  }
+};
+
+/**
+ * 動画からフレームを抽出する（シーン変化検出モード / 等間隔モード対応）
+ *
+ * @param videoFile - 動画ファイル
+ * @param options - 抽出オプション（省略時はシーン検出・自動閾値・最大10フレーム）
+ * @param scan - 既存のスキャン結果（指定時は再スキャンしない）
+ * @returns 抽出フレームの配列
+ */
+export const extractFrames = async (
+  videoFile: File,
+  options?: Partial<ExtractOptions>,
+  scan?: SceneScan
+): Promise<ExtractedFrame[]> => {
+  const opts: ExtractOptions = { ...DEFAULT_OPTIONS, ...options };
+  const video = await loadVideo(videoFile);
+
+  try {
+    let frameTimestamps: (ChangeSample & { changeTimestamp: number })[];
+
+    if (opts.mode === 'auto') {
+      // ========== シーン変化検出モード ==========
+      const sceneScan = scan ?? await scanVideo(
+        videoFile,
+        video,
+        opts.scanInterval,
+        opts.ignoreRegions,
+        opts.onProgress,
+        opts.signal
+      );
+      const threshold = opts.sensitivity === 'auto' ? sceneScan.autoThreshold : opts.sensitivity;
+      const changes = selectFrameTimestamps(sceneScan, threshold, opts.maxFrames);
+      // スキャン間隔の粒度からフレーム精度まで変化時刻を絞り込む
+      const refined = await refineChangeTimestamps(
+        videoFile,
+        video,
+        changes,
+        sceneScan.scanInterval,
+        opts.ignoreRegions,
+        opts.signal
+      );
+      // 変化途中ではなく、画面が落ち着いたフレームを採用
+      // 安定判定の閾値は、指定がなければスキャンで測った雑音の水準から決める
+      frameTimestamps = await settleFrameTimestamps(
+        videoFile,
+        video,
+        refined,
+        opts.settleThreshold ?? sceneScan.settleThreshold,
+        opts
+      );
+    } else {
+      // ========== 等間隔モード ==========
+      frameTimestamps = generateEqualIntervals(
+        video.duration,
+        opts.maxFrames
+      ).map(f => ({ ...f, changeTimestamp: f.timestamp }));
+    }
+
+    // フレーム画像を高解像度でキャプチャ
+    const captureCanvas = document.createElement('canvas');
+    captureCanvas.width = video.videoWidth;
+    captureCanvas.height = video.videoHeight;
+    const captureCtx = captureCanvas.getContext('2d')!;
+
+    const frames: ExtractedFrame[] = [];
+
+    for (let i = 0; i < frameTimestamps.length; i++) {
+      opts.signal?.throwIfAborted();
+      const { timestamp, changeScore, changeTimestamp } = frameTimestamps[i];
+      video.currentTime = timestamp;
+      await new Promise<void>((r) => (video.onseeked = () => r()));
+
+      captureCtx.drawImage(
+        video,
+        0,
+        0,
+        captureCanvas.width,
+        captureCanvas.height
+      );
+
+      frames.push({
+        timestamp,
+        dataUrl: captureCanvas.toDataURL('image/jpeg', 0.8),
+        changeScore,
+        changeTimestamp,
+      });
+    }
+
+    return frames;
+  } finally {
+    URL.revokeObjectURL(video.src);
+  }
+};
+
+/**
+ * 動画の指定時刻のフレームを高解像度でキャプチャする（ステップの手動追加用）
+ *
+ * @param videoFile - 動画ファイル
+ * @param timestamp - キャプチャする時刻（秒）
+ * @returns Base64エンコードされた画像データ
+ */
+export const captureFrameAt = async (
+  videoFile: File,
+  timestamp: number
+): Promise<string> => {
+  const video = await loadVideo(videoFile);
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d')!;
+
+    video.currentTime = Math.min(Math.max(0, timestamp), video.duration - 0.01);
+    await new Promise<void>((r) => (video.onseeked = () => r()));
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+    return canvas.toDataURL('image/jpeg', 0.8);
+  } finally {
+    URL.revokeObjectURL(video.src);
+  }
+};
+
+/**
+ * 指定範囲のフレームを一定間隔でキャプチャする（ステップのクリップ生成用）
+ * フレームは保持せず、描画した canvas を1枚ずつ onFrame に渡す（onFrame が終わるまで次のフレームに進まない）
+ *
+ * @param videoFile - 動画ファイル
+ * @param options.start / options.end - キャプチャ範囲（秒）
+ * @param options.fps - 1秒あたりのフレーム数
+ * @param options.maxWidth - 出力の最大幅（px）。これより大きい動画は縮小する
+ * @param options.onFrame - 各フレームを描画した canvas を受け取る（オーバーレイの描画・エンコード用）
+ */
+export const captureClipFrames = async (
+  videoFile: File,
+  options: {
+    start: number;
+    end: number;
+    fps: number;
+    maxWidth: number;
+    onFrame: (canvas: HTMLCanvasElement) => void | Promise<void>;
+    onProgress?: (progress: number) => void;
+    signal?: AbortSignal;
+  }
+): Promise<void> => {
+  const { start, end, fps, maxWidth, onFrame, onProgress, signal } = options;
+  const video = await loadVideo(videoFile);
+  try {
+    const scale = Math.min(1, maxWidth / video.videoWidth);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+
+    const clipEnd = Math.min(end, video.duration - 0.01);
+    const count = Math.max(1, Math.floor((clipEnd - start) * fps));
+
+    for (let i = 0; i < count; i++) {
+      signal?.throwIfAborted();
+      video.currentTime = start + i / fps;
+      await new Promise<void>((r) => (video.onseeked = () => r()));
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      await onFrame(canvas);
+      onProgress?.(Math.round(((i + 1) / count) * 100));
+    }
+  } finally {
+    URL.revokeObjectURL(video.src);
+  }
 };
 
 /**
@@ -251,46 +692,11 @@ export const extractFrames = async (
 function generateEqualIntervals(
   duration: number,
   count: number
-): { timestamp: number; changeScore: number }[] {
+): ChangeSample[] {
   const interval = duration / (count + 1);
-  const results: { timestamp: number; changeScore: number }[] = [];
+  const results: ChangeSample[] = [];
   for (let i = 1; i <= count; i++) {
     results.push({ timestamp: i * interval, changeScore: 0 });
   }
   return results;
 }
-
-// ============================================================
-// アノテーション描画（既存機能を維持）
-// ============================================================
-
-/**
- * Canvas上にバウンディングボックスのアノテーションを描画する
- */
-export const drawAnnotation = (
-  canvas: HTMLCanvasElement,
-  box: [number, number, number, number]
-) => {
-  const ctx = canvas.getContext('2d');
-  if (!ctx) return;
-
-  const [ymin, xmin, ymax, xmax] = box;
-  const width = canvas.width;
-  const height = canvas.height;
-
-  const x = (xmin / 1000) * width;
-  const y = (ymin / 1000) * height;
-  const w = ((xmax - xmin) / 1000) * width;
-  const h = ((ymax - ymin) / 1000) * height;
-
-  // 赤枠のスタイル
-  ctx.strokeStyle = '#ef4444';
-  ctx.lineWidth = 4;
-  ctx.lineJoin = 'round';
-  ctx.strokeRect(x, y, w, h);
-
-  // ラベルの描画
-  ctx.fillStyle = '#ef4444';
-  ctx.font = 'bold 16px sans-serif';
-  ctx.fillText('CLICK HERE', x, y > 20 ? y - 5 : y + h + 20);
-};
@@ -0,0 +1,166 @@
+import type { ChangeSample } from '../types';
+
+/**
+ * ワーカー（WebCodecs + OffscreenCanvas）によるシーン変化検出の呼び出し口
+ * スキャン・変化時刻の絞り込み・安定フレームの探索をワーカーで行う
+ * 非対応のブラウザ・コンテナ・コーデックでは null を返し、呼び出し側はシーク方式にフォールバックする
+ */
+
+/** スキャン: 動画全体の変化スコア系列を求める */
+export interface ScanRequest {
+  type: 'scan';
+  file: File;
+  scanInterval: number;
+  ignoreRegions?: [number, number, number, number][];
+}
+
+/** 絞り込み: 区間（変化前の時刻〜変化を検出した時刻）ごとに変化が起きたフレームの時刻を求める */
+export interface RefineRequest {
+  type: 'refine';
+  file: File;
+  ignoreRegions?: [number, number, number, number][];
+  windows: { before: number; after: number }[];
+}
+
+/** 安定判定: 区間（変化点〜探索の上限時刻）ごとに画面が安定した時刻を求める */
+export interface SettleRequest {
+  type: 'settle';
+  file: File;
+  ignoreRegions?: [number, number, number, number][];
+  windows: { start: number; limit: number }[];
+  /** 安定とみなす継続時間（秒） */
+  dwell: number;
+  /** 静止とみなす変化スコアの上限 */
+  threshold: number;
+  /** 画面を確認する間隔（秒） */
+  step: number;
+}
+
+/** ワーカーへのリクエスト */
+export type ScanWorkerRequest = ScanRequest | RefineRequest | SettleRequest;
+
+/** リクエストの種類ごとの結果 */
+interface ScanWorkerResults {
+  scan: ChangeSample[];
+  refine: number[];
+  settle: number[];
+}
+
+/** ワーカーからのメッセージ */
+export type ScanWorkerMessage =
+  | { type: 'progress'; progress: number }
+  | { type: 'done'; result: ScanWorkerResults[ScanWorkerRequest['type']] }
+  | { type: 'unsupported'; reason: string }
+  | { type: 'error'; message: string };
+
+/**
+ * ワーカーによるスキャンが使える環境かどうか
+ */
+export const isWebCodecsScanAvailable = (): boolean =>
+  typeof Worker !== 'undefined' &&
+  typeof VideoDecoder !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined';
+
+/**
+ * ワーカーでリクエストを処理する
+ *
+ * @param request - 処理の種類と動画ファイル・パラメーター
+ * @param onProgress - 進捗コールバック（0-100）
+ * @param signal - 中断シグナル（中断時はワーカーを停止して AbortError で reject）
+ * @returns 処理結果（ワーカーで処理できない場合は null）
+ */
+function runWorker<T extends ScanWorkerRequest>(
+  request: T,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<ScanWorkerResults[T['type']] | null> {
+  if (!isWebCodecsScanAvailable()) return Promise.resolve(null);
+  if (signal?.aborted) return Promise.reject(signal.reason);
+
+  return new Promise((resolve, reject) => {
+    let worker: Worker;
+    try {
+      worker = new Worker(new URL('./sceneScan.worker.ts', import.meta.url), { type: 'module' });
+    } catch (err) {
+      console.warn('Scene scan worker could not be started:', err);
+      resolve(null);
+      return;
+    }
+
+    const onAbort = () => {
+      worker.terminate();
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const finish = (result: ScanWorkerResults[T['type']] | null) => {
+      signal?.removeEventListener('abort', onAbort);
+      worker.terminate();
+      resolve(result);
+    };
+
+    worker.onmessage = (e: MessageEvent<ScanWorkerMessage>) => {
+      const message = e.data;
+      switch (message.type) {
+        case 'progress':
+          onProgress?.(message.progress);
+          break;
+        case 'done':
+          finish(message.result as ScanWorkerResults[T['type']]);
+          break;
+        case 'unsupported':
+          console.info(`WebCodecs ${request.type} unavailable, falling back to seeking: ${message.reason}`);
+          finish(null);
+          break;
+        case 'error':
+          console.warn(`WebCodecs ${request.type} failed, falling back to seeking: ${message.message}`);
+          finish(null);
+          break;
+      }
+    };
+    worker.onerror = (e) => {
+      console.warn('Scene scan worker error, falling back to seeking:', e.message);
+      finish(null);
+    };
+
+    worker.postMessage(request);
+  });
+}
+
+/**
+ * 動画ファイルをワーカーでデコードしてシーン変化スコアの系列を求める
+ *
+ * @param request - 動画ファイル・スキャン間隔・除外領域
+ * @param onProgress - 進捗コールバック（0-100）
+ * @param signal - 中断シグナル
+ * @returns 変化スコア系列（ワーカーで処理できない場合は null）
+ */
+export const scanWithWebCodecs = (
+  request: Omit<ScanRequest, 'type'>,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<ChangeSample[] | null> => runWorker({ type: 'scan', ...request }, onProgress, signal);
+
+/**
+ * 変化点の時刻をワーカーでフレーム単位に絞り込む（必要な区間だけをデコードする）
+ *
+ * @param request - 動画ファイル・除外領域・絞り込む区間
+ * @param signal - 中断シグナル
+ * @returns 区間ごとの変化時刻（ワーカーで処理できない場合は null）
+ */
+export const refineWithWebCodecs = (
+  request: Omit<RefineRequest, 'type'>,
+  signal?: AbortSignal
+): Promise<number[] | null> => runWorker({ type: 'refine', ...request }, undefined, signal);
+
+/**
+ * 変化点から先で画面が安定した時刻をワーカーで求める（必要な区間だけをデコードする）
+ *
+ * @param request - 動画ファイル・除外領域・探索する区間・安定判定の条件
+ * @param signal - 中断シグナル
+ * @returns 区間ごとの安定した時刻（ワーカーで処理できない場合は null）
+ */
+export const settleWithWebCodecs = (
+  request: Omit<SettleRequest, 'type'>,
+  signal?: AbortSignal
+): Promise<number[] | null> => runWorker({ type: 'settle', ...request }, undefined, signal);